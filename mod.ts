@@ -9,13 +9,50 @@
  * @module DomainCrafters Dependency Injection
  * This module provides a simple dependency injection library for Deno.
  */
+export { ServiceToken } from "@domaincrafters/di/ServiceToken.ts";
+export { Lazy } from "@domaincrafters/di/Lazy.ts";
+export { LazyServiceKey } from "@domaincrafters/di/LazyServiceKey.ts";
+export { DependencyGraph } from "@domaincrafters/di/DependencyGraph.ts";
 export { defaultServiceDisposer } from "@domaincrafters/di/ServiceProvider.ts";
 export { DIServiceProvider } from "@domaincrafters/di/DIServiceProvider.ts";
 export { DIServiceCollection } from "@domaincrafters/di/DIServiceCollection.ts";
 export { ServiceLifetime } from "@domaincrafters/di/ServiceProvider.ts";
 export { EmptyDIServiceProvider } from "@domaincrafters/di/EmptyDIServiceProvider.ts";
 export { EmptyDIServiceCollection } from "@domaincrafters/di/EmptyDIServiceCollection.ts";
+export { CircularDependencyException } from "@domaincrafters/di/CircularDependencyException.ts";
+export { ServiceNotFoundException } from "@domaincrafters/di/ServiceNotFoundException.ts";
+export { DisposalException } from "@domaincrafters/di/DisposalException.ts";
+export { InitializationException } from "@domaincrafters/di/InitializationException.ts";
+export { ServiceValidationProblemType } from "@domaincrafters/di/ServiceValidationProblem.ts";
+export { DIServiceValidator } from "@domaincrafters/di/DIServiceValidator.ts";
+export { DIHost } from "@domaincrafters/di/DIHost.ts";
 export type { ServiceCollection } from "@domaincrafters/di/ServiceCollection.ts";
 export type { ServiceProvider } from "@domaincrafters/di/ServiceProvider.ts";
+export type { ServiceKey } from "@domaincrafters/di/ServiceToken.ts";
+export type { ServiceModule } from "@domaincrafters/di/ServiceModule.ts";
+export type { HostedService } from "@domaincrafters/di/HostedService.ts";
+export type { HostOptions } from "@domaincrafters/di/DIHost.ts";
+export type { ServiceEvent, ServiceProviderObserver } from "@domaincrafters/di/ServiceProviderObserver.ts";
+export type {
+    DependencyGraphEdge,
+    DependencyGraphNode,
+} from "@domaincrafters/di/DependencyGraph.ts";
+export type { DisposalFailure } from "@domaincrafters/di/DisposalException.ts";
+export type { InitializationFailure } from "@domaincrafters/di/InitializationException.ts";
+export type { ServiceValidationProblem } from "@domaincrafters/di/ServiceValidationProblem.ts";
 export type { Instance, ServiceBinding } from "@domaincrafters/di/ServiceProvider.ts";
-export type { ServiceDisposer, ServiceFactory } from "@domaincrafters/di/ServiceProvider.ts";
\ No newline at end of file
+export type {
+    Factory,
+    InitializeOptions,
+    ParameterizedServiceFactory,
+    ScopedServiceOptions,
+    ScopeOptions,
+    ServiceClass,
+    ServiceDecorator,
+    ServiceDependency,
+    ServiceDisposer,
+    ServiceFactory,
+    ServiceProviderOptions,
+    ServiceStartHook,
+    SingletonServiceOptions,
+} from "@domaincrafters/di/ServiceProvider.ts";
\ No newline at end of file
@@ -0,0 +1,46 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { IllegalStateException } from '@domaincrafters/std';
+
+/**
+ * Thrown when resolving a service requires resolving that same service again.
+ *
+ * @example Usage
+ * ```typescript
+ * try {
+ *   await serviceProvider.getService<OrderService>('orderService');
+ * } catch (error) {
+ *   if (error instanceof CircularDependencyException) {
+ *     console.log(error.resolutionPath); // ['orderService', 'paymentService', 'orderService']
+ *   }
+ * }
+ * ```
+ */
+export class CircularDependencyException extends IllegalStateException {
+    private readonly _resolutionPath: string[];
+
+    /**
+     * Creates a new CircularDependencyException for the given resolution path.
+     *
+     * @param {string[]} resolutionPath - The keys being resolved, ending with the key that closes the cycle.
+     */
+    constructor(resolutionPath: string[]) {
+        super(`Circular dependency detected: ${resolutionPath.join(' -> ')}`);
+        this.name = 'CircularDependencyException';
+        this._resolutionPath = resolutionPath;
+    }
+
+    /**
+     * Gets the keys being resolved, ending with the key that closes the cycle.
+     *
+     * @returns {string[]} The resolution path.
+     */
+    get resolutionPath(): string[] {
+        return [...this._resolutionPath];
+    }
+}
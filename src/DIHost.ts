@@ -0,0 +1,273 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { IllegalStateException } from '@domaincrafters/std';
+import {
+    DIServiceProvider,
+    DisposalException,
+    type DisposalFailure,
+    type HostedService,
+    type InitializeOptions,
+    type ServiceCollection,
+    type ServiceProvider,
+    type ServiceProviderOptions,
+} from '@domaincrafters/di/mod.ts';
+
+/**
+ * Represents the options of a host.
+ *
+ * @example Usage
+ * ```typescript
+ * const options: HostOptions = { shutdownTimeout: 10_000, observers: [loggingObserver] };
+ * const host = DIHost.create(serviceCollection, options);
+ * ```
+ */
+export interface HostOptions extends ServiceProviderOptions, InitializeOptions {
+    /**
+     * The time in milliseconds hosted services get to stop, defaults to 30 seconds.
+     */
+    shutdownTimeout?: number;
+
+    /**
+     * The signals that shut the host down, defaults to SIGINT and SIGTERM.
+     */
+    signals?: Deno.Signal[];
+}
+
+/**
+ * Runs an application built from a service collection: it initializes the singletons, starts the
+ * hosted services, waits for a shutdown signal, stops the hosted services and disposes the root
+ * service provider.
+ *
+ * @example Usage
+ * ```typescript
+ * serviceCollection
+ *   .addSingleton('databasePool', databasePoolFactory, undefined, {
+ *     onStart: async (pool, provider) => await pool.connect(),
+ *   })
+ *   .addHostedService('outboxPublisher', async (provider) => {
+ *     return new OutboxPublisher(await provider.getRequiredService('databasePool'));
+ *   });
+ *
+ * // Resolves once SIGINT or SIGTERM is received and the application is shut down
+ * await DIHost.create(serviceCollection).run();
+ * ```
+ */
+export class DIHost {
+    private readonly _serviceProvider: ServiceProvider;
+    private readonly _options: HostOptions;
+    private readonly _abortController: AbortController = new AbortController();
+    private readonly _startedServices: StartedHostedService[] = [];
+    private readonly _shutdownRequested: Promise<void>;
+    private _requestShutdown: () => void = () => {};
+    private _isStopped: boolean = false;
+
+    /**
+     * Creates a new host for the services in the given collection. The host uses a snapshot of
+     * the collection, like `DIServiceProvider.create`.
+     *
+     * @param {ServiceCollection} serviceCollection - The collection of services to run.
+     * @param {HostOptions} [options] - The shutdown timeout and signals, and the options of the service provider.
+     * @returns {DIHost} A new host.
+     *
+     * @example Usage
+     * ```typescript
+     * const host = DIHost.create(serviceCollection, { shutdownTimeout: 10_000 });
+     * ```
+     */
+    static create(serviceCollection: ServiceCollection, options?: HostOptions): DIHost {
+        return new DIHost(DIServiceProvider.create(serviceCollection, options), options ?? {});
+    }
+
+    /**
+     * Gets the root service provider of the host.
+     *
+     * @returns {ServiceProvider} The root service provider.
+     */
+    get serviceProvider(): ServiceProvider {
+        return this._serviceProvider;
+    }
+
+    /**
+     * Starts the host, waits until a shutdown signal is received or `shutdown` is called and
+     * stops the host. When starting fails, the hosted services started so far are stopped and
+     * the root service provider is disposed before the error is rethrown. When stopping fails as
+     * well, both errors are thrown together in an `AggregateError`, the start error first.
+     *
+     * @returns {Promise<void>} A promise that resolves when the host is stopped.
+     * @throws {InitializationException} When a singleton cannot be created or started.
+     * @throws {DisposalException} When hosted services fail or time out stopping, or services fail to dispose.
+     * @throws {AggregateError} When starting fails and stopping fails as well.
+     *
+     * @example Usage
+     * ```typescript
+     * await DIHost.create(serviceCollection).run();
+     * ```
+     */
+    async run(): Promise<void> {
+        const signals: Deno.Signal[] = this._options.signals ?? ['SIGINT', 'SIGTERM'];
+
+        for (const signal of signals) {
+            Deno.addSignalListener(signal, this._requestShutdown);
+        }
+
+        try {
+            await this.start();
+            await this._shutdownRequested;
+        } catch (startError) {
+            try {
+                await this.stop();
+            } catch (stopError) {
+                throw new AggregateError(
+                    [startError, stopError],
+                    'Host failed to start and failed to stop',
+                );
+            }
+
+            throw startError;
+        } finally {
+            for (const signal of signals) {
+                Deno.removeSignalListener(signal, this._requestShutdown);
+            }
+        }
+
+        await this.stop();
+    }
+
+    /**
+     * Requests a running host to shut down, as a shutdown signal does.
+     *
+     * @example Usage
+     * ```typescript
+     * const running = host.run();
+     * host.shutdown();
+     * await running;
+     * ```
+     */
+    shutdown(): void {
+        this._requestShutdown();
+    }
+
+    /**
+     * Initializes the singletons of the root service provider and starts the hosted services in
+     * registration order.
+     *
+     * @returns {Promise<void>} A promise that resolves when every hosted service is started.
+     * @throws {InitializationException} When a singleton cannot be created or started.
+     * @throws {IllegalStateException} When the host is stopped.
+     *
+     * @example Usage
+     * ```typescript
+     * await host.start();
+     * ```
+     */
+    async start(): Promise<void> {
+        if (this._isStopped) {
+            throw new IllegalStateException('Cannot start a host that has been stopped');
+        }
+
+        await this._serviceProvider.initialize(this._options);
+
+        for (const [key, hostedService] of await this.findHostedServices()) {
+            await hostedService.start(this._abortController.signal);
+            this._startedServices.push({ key, hostedService });
+        }
+    }
+
+    /**
+     * Aborts the signal passed to the hosted services, stops the started hosted services in
+     * reverse order within the shutdown timeout and disposes the root service provider. Every
+     * step runs, even when others fail. Stopping the host again does nothing.
+     *
+     * @returns {Promise<void>} A promise that resolves when the host is stopped.
+     * @throws {DisposalException} When hosted services fail or time out stopping, or services fail to dispose.
+     *
+     * @example Usage
+     * ```typescript
+     * await host.stop();
+     * ```
+     */
+    async stop(): Promise<void> {
+        if (this._isStopped) {
+            return;
+        }
+
+        this._isStopped = true;
+        this._abortController.abort();
+
+        const shutdownTimeout: number = this._options.shutdownTimeout ?? 30_000;
+        const deadline: number = performance.now() + shutdownTimeout;
+        const failures: DisposalFailure[] = [];
+
+        for (const { key, hostedService } of [...this._startedServices].reverse()) {
+            try {
+                await this.stopHostedService(hostedService, deadline - performance.now());
+            } catch (error) {
+                failures.push({ key, error });
+            }
+        }
+
+        try {
+            await this._serviceProvider.dispose();
+        } catch (error) {
+            if (!(error instanceof DisposalException)) {
+                throw error;
+            }
+
+            failures.push(...error.failures);
+        }
+
+        if (failures.length > 0) {
+            throw new DisposalException(failures);
+        }
+    }
+
+    private async findHostedServices(): Promise<[string, HostedService][]> {
+        if (this._serviceProvider instanceof DIServiceProvider) {
+            return await this._serviceProvider.getHostedServices();
+        }
+
+        return [];
+    }
+
+    private async stopHostedService(hostedService: HostedService, timeout: number): Promise<void> {
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        const timedOut: Promise<void> = new Promise<void>((_resolve, reject) => {
+            timeoutId = setTimeout(
+                () =>
+                    reject(
+                        new IllegalStateException(
+                            'Hosted service did not stop within the shutdown timeout',
+                        ),
+                    ),
+                Math.max(timeout, 0),
+            );
+        });
+
+        try {
+            await Promise.race([hostedService.stop(), timedOut]);
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+
+    private constructor(serviceProvider: ServiceProvider, options: HostOptions) {
+        this._serviceProvider = serviceProvider;
+        this._options = options;
+        this._shutdownRequested = new Promise<void>((resolve) => {
+            this._requestShutdown = resolve;
+        });
+    }
+}
+
+/**
+ * A hosted service that is started, together with its key.
+ */
+interface StartedHostedService {
+    key: string;
+    hostedService: HostedService;
+}
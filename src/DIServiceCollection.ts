@@ -7,13 +7,33 @@
 
 import {
     defaultServiceDisposer,
+    type Factory,
+    type HostedService,
+    type Instance,
+    LazyServiceKey,
+    type ParameterizedServiceFactory,
+    type ScopedServiceOptions,
     type ServiceBinding,
+    type ServiceClass,
     type ServiceCollection,
+    type ServiceDecorator,
+    type ServiceDependency,
     type ServiceDisposer,
     type ServiceFactory,
+    type ServiceKey,
     ServiceLifetime,
+    type ServiceModule,
+    type ServiceProvider,
+    type ServiceStartHook,
+    ServiceToken,
+    type SingletonServiceOptions,
 } from '@domaincrafters/di/mod.ts';
-import { Optional } from '@domaincrafters/std';
+import { IllegalStateException, Optional } from '@domaincrafters/std';
+
+/**
+ * Disposer for instances owned by the caller, which the service provider must not dispose.
+ */
+const externallyOwnedServiceDisposer: ServiceDisposer<unknown> = async (): Promise<void> => {};
 
 /**
  * Represents a collection of service descriptors used to build a ServiceProvider.
@@ -35,13 +55,25 @@ import { Optional } from '@domaincrafters/std';
  * serviceCollection.addTransient('loggingService', async (provider) => {
  *   return new LoggingService();
  * });
+ *
+ * const orderServiceToken = ServiceToken.create<OrderService>('orderService');
+ * serviceCollection.addScoped(orderServiceToken, async (provider) => {
+ *   return new OrderService();
+ * });
  * ```
  */
 export class DIServiceCollection implements ServiceCollection {
-    private readonly _serviceBindings: Map<string, ServiceBinding> = new Map<
+    private readonly _serviceBindings: Map<string, ServiceBinding[]> = new Map<
+        string,
+        ServiceBinding[]
+    >();
+    private readonly _keyedServiceBindings: Map<string, Map<string, ServiceBinding>> = new Map<
         string,
-        ServiceBinding
+        Map<string, ServiceBinding>
     >();
+    private readonly _serviceModules: Map<string, ServiceModule> = new Map<string, ServiceModule>();
+    private readonly _moduleNamesByKey: Map<string, string[]> = new Map<string, string[]>();
+    private _registeringModuleName?: string;
 
     /**
      * Creates a new instance of DIServiceCollection.
@@ -58,34 +90,50 @@ export class DIServiceCollection implements ServiceCollection {
     }
 
     /**
-     * Adds a transient service to the collection.
+     * Adds a transient service of type Type to the collection.
      *
-     * @param {string} key - The unique key representing the service.
-     * @param {ServiceFactory} serviceFactory - The factory function to create the service instance.
-     * @param {ServiceDisposer} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @generic Type - The type of the service to add.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceFactory<Type>} serviceFactory - The factory function to create the service instance.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * Instances with a disposer are disposed when the provider or scope that created them is disposed.
      * @returns {ServiceCollection} The service collection for chaining.
      *
      * @example Usage
      * ```typescript
-     * serviceCollection.addTransient('loggingService', async (provider) => {
-     *   return new LoggingService();
+     * serviceCollection.addTransient('httpClient', async (provider) => {
+     *   return new HttpClient();
+     * }, async (client, provider) => {
+     *   await client.close();
      * });
      * ```
      */
-    addTransient(
+    addTransient<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    addTransient<Type>(
         key: string,
         serviceFactory: ServiceFactory,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    addTransient<Type>(
+        key: ServiceKey<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
     ): ServiceCollection {
-        return this.addService(key, ServiceLifetime.Transient, serviceFactory);
+        return this.addService(key, ServiceLifetime.Transient, serviceFactory, serviceDisposer);
     }
 
     /**
      * Adds a scoped service of type Type to the collection.
      *
      * @generic Type - The type of the service to add.
-     * @param {string} key - The unique key representing the service.
-     * @param {ServiceFactory} serviceFactory - The factory function to create the service instance.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceFactory<Type>} serviceFactory - The factory function to create the service instance.
      * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @param {ScopedServiceOptions} [scopedServiceOptions] - Optional options, such as whether nested scopes share the instance.
      * @returns {ServiceCollection} The service collection for chaining.
      *
      * @example Usage
@@ -93,23 +141,48 @@ export class DIServiceCollection implements ServiceCollection {
      * serviceCollection.addScoped('userService', async (provider) => {
      *   return new UserService();
      * });
+     *
+     * // Every nested scope creates its own unit of work
+     * serviceCollection.addScoped('unitOfWork', unitOfWorkFactory, undefined, {
+     *   shareWithNestedScopes: false,
+     * });
      * ```
      */
+    addScoped<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+        scopedServiceOptions?: ScopedServiceOptions,
+    ): ServiceCollection;
     addScoped<Type>(
         key: string,
         serviceFactory: ServiceFactory,
         serviceDisposer?: ServiceDisposer<Type>,
+        scopedServiceOptions?: ScopedServiceOptions,
+    ): ServiceCollection;
+    addScoped<Type>(
+        key: ServiceKey<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+        scopedServiceOptions?: ScopedServiceOptions,
     ): ServiceCollection {
-        return this.addService(key, ServiceLifetime.Scoped, serviceFactory, serviceDisposer);
+        return this.addService(
+            key,
+            ServiceLifetime.Scoped,
+            serviceFactory,
+            serviceDisposer,
+            scopedServiceOptions,
+        );
     }
 
     /**
      * Adds a singleton service of type Type to the collection.
      *
      * @generic Type - The type of the service to add.
-     * @param {string} key - The unique key representing the service.
-     * @param {ServiceFactory} serviceFactory - The factory function to create the service instance.
-     * @param {ServiceDisposer} serviceDisposer - The disposer function to dispose the service instance.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceFactory<Type>} serviceFactory - The factory function to create the service instance.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @param {SingletonServiceOptions<Type>} [singletonServiceOptions] - Optional options, such as whether `initialize` creates the singleton and how it is started.
      * @returns {ServiceCollection} The service collection for chaining.
      *
      * @example Usage
@@ -119,16 +192,752 @@ export class DIServiceCollection implements ServiceCollection {
      * }, async (instance, provider) => {
      *   // Dispose logic here
      * });
+     *
+     * // Connected by serviceProvider.initialize() before the first request
+     * serviceCollection.addSingleton('databasePool', databasePoolFactory, undefined, {
+     *   eager: true,
+     *   onStart: async (pool, provider) => await pool.connect(),
+     * });
      * ```
      */
+    addSingleton<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+        singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection;
     addSingleton<Type>(
         key: string,
         serviceFactory: ServiceFactory,
-        serviceDisposer: ServiceDisposer<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+        singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection;
+    addSingleton<Type>(
+        key: ServiceKey<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+        singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection {
+        return this.addService(
+            key,
+            ServiceLifetime.Singleton,
+            serviceFactory,
+            serviceDisposer,
+            singletonServiceOptions,
+        );
+    }
+
+    /**
+     * Adds a scoped service created by calling the constructor of a class.
+     *
+     * @generic Type - The type of the service to add.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceClass<Type>} serviceClass - The class to instantiate.
+     * @param {ServiceDependency[]} [dependencies] - The keys of the constructor arguments, defaults to the static `inject` property of the class.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.addScopedClass('orderRepository', OrderRepository, ['dbPool', 'logger']);
+     * ```
+     */
+    addScopedClass<Type>(
+        key: ServiceKey<Type>,
+        serviceClass: ServiceClass<Type>,
+        dependencies?: ServiceDependency[],
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addService(
+            key,
+            ServiceLifetime.Scoped,
+            this.createClassFactory(serviceClass, dependencies),
+            serviceDisposer,
+            { dependencies: this.findClassDependencyKeys(serviceClass, dependencies) },
+        );
+    }
+
+    /**
+     * Adds a singleton service created by calling the constructor of a class.
+     *
+     * @generic Type - The type of the service to add.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceClass<Type>} serviceClass - The class to instantiate.
+     * @param {ServiceDependency[]} [dependencies] - The keys of the constructor arguments, defaults to the static `inject` property of the class.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @param {SingletonServiceOptions<Type>} [singletonServiceOptions] - Optional options, such as whether `initialize` creates the singleton and how it is started.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.addSingletonClass('dbPool', DbPool, ['config']);
+     * ```
+     */
+    addSingletonClass<Type>(
+        key: ServiceKey<Type>,
+        serviceClass: ServiceClass<Type>,
+        dependencies?: ServiceDependency[],
+        serviceDisposer?: ServiceDisposer<Type>,
+        singletonServiceOptions?: SingletonServiceOptions<Type>,
     ): ServiceCollection {
+        return this.addService(
+            key,
+            ServiceLifetime.Singleton,
+            this.createClassFactory(serviceClass, dependencies),
+            serviceDisposer,
+            {
+                ...singletonServiceOptions,
+                dependencies: this.findClassDependencyKeys(serviceClass, dependencies),
+            },
+        );
+    }
+
+    /**
+     * Adds a transient service created by calling the constructor of a class.
+     *
+     * @generic Type - The type of the service to add.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceClass<Type>} serviceClass - The class to instantiate.
+     * @param {ServiceDependency[]} [dependencies] - The keys of the constructor arguments, defaults to the static `inject` property of the class.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * class OrderValidator {
+     *   static inject = ['logger'];
+     *   constructor(private readonly logger: Logger) {}
+     * }
+     *
+     * serviceCollection.addTransientClass('orderValidator', OrderValidator);
+     * ```
+     */
+    addTransientClass<Type>(
+        key: ServiceKey<Type>,
+        serviceClass: ServiceClass<Type>,
+        dependencies?: ServiceDependency[],
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addService(
+            key,
+            ServiceLifetime.Transient,
+            this.createClassFactory(serviceClass, dependencies),
+            serviceDisposer,
+            { dependencies: this.findClassDependencyKeys(serviceClass, dependencies) },
+        );
+    }
+
+    /**
+     * Adds an already constructed instance as a singleton service. The instance is returned as is
+     * and, as it is owned by the caller, it is not disposed by the service provider unless a
+     * disposer is given.
+     *
+     * @generic Type - The type of the service to add.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {Type} instance - The instance to return when the service is resolved.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer, to let the service provider dispose the instance.
+     * @param {SingletonServiceOptions<Type>} [singletonServiceOptions] - Optional options, such as how `initialize` starts the instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.addInstance('config', await loadConfig());
+     *
+     * // Let the service provider dispose the instance through Symbol.asyncDispose
+     * serviceCollection.addInstance('dbPool', dbPool, defaultServiceDisposer);
+     * ```
+     */
+    addInstance<Type>(
+        key: ServiceKey<Type>,
+        instance: Type,
+        serviceDisposer?: ServiceDisposer<Type>,
+        singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection {
+        return this.addService(
+            key,
+            ServiceLifetime.Singleton,
+            () => Promise.resolve(instance),
+            serviceDisposer ?? externallyOwnedServiceDisposer,
+            singletonServiceOptions,
+        );
+    }
+
+    /**
+     * Adds a hosted service, a singleton background worker started and stopped by a `DIHost`.
+     * Hosted services are started in registration order and stopped in reverse order.
+     *
+     * @generic Type - The type of the hosted service.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceFactory<Type>} serviceFactory - The factory function to create the service instance.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.addHostedService('outboxPublisher', async (provider) => {
+     *   return new OutboxPublisher(await provider.getRequiredService('databasePool'));
+     * });
+     * ```
+     */
+    addHostedService<Type extends HostedService>(
+        key: ServiceKey<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addService(
+            key,
+            ServiceLifetime.Singleton,
+            serviceFactory,
+            serviceDisposer,
+            { hosted: true },
+        );
+    }
+
+    /**
+     * Adds a factory that creates a new service instance from runtime arguments each time it is
+     * called, resolving the dependencies of the instance from the provider that resolved the
+     * factory. Created instances are owned by the caller and not disposed by the provider.
+     *
+     * @generic Type - The type of the service the factory creates.
+     * @generic Args - The types of the runtime arguments.
+     * @param {ServiceKey<Factory<Type, Args>>} key - The unique key or typed token representing the factory.
+     * @param {ParameterizedServiceFactory<Type, Args>} serviceFactory - The function creating the service instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * const orderFactoryToken = ServiceToken.create<Factory<Order, [OrderId]>>('orderFactory');
+     *
+     * serviceCollection.addFactory(orderFactoryToken, async (provider, orderId: OrderId) => {
+     *   const clock = await provider.getRequiredService<Clock>('clock');
+     *   return new Order(orderId, clock.now());
+     * });
+     *
+     * const orderFactory = await serviceProvider.getRequiredService(orderFactoryToken);
+     * const order = await orderFactory(orderId);
+     * ```
+     */
+    addFactory<Type, Args extends unknown[] = []>(
+        key: ServiceKey<Factory<Type, Args>>,
+        serviceFactory: ParameterizedServiceFactory<Type, Args>,
+    ): ServiceCollection {
+        return this.addService(
+            key,
+            ServiceLifetime.Transient,
+            (serviceProvider: ServiceProvider) => {
+                const factory: Factory<Type, Args> = async (...args: Args): Promise<Type> =>
+                    await serviceFactory(serviceProvider, ...args);
+
+                return Promise.resolve(factory);
+            },
+        );
+    }
+
+    /**
+     * Adds a scoped service of type Type to the collection, unless a service is already registered under the key.
+     *
+     * @generic Type - The type of the service to add.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceFactory<Type>} serviceFactory - The factory function to create the service instance.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * // Registers a default that application code can register before or override
+     * serviceCollection.tryAddScoped('userService', async (provider) => {
+     *   return new UserService();
+     * });
+     * ```
+     */
+    tryAddScoped<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddScoped<Type>(
+        key: string,
+        serviceFactory: ServiceFactory,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddScoped<Type>(
+        key: ServiceKey<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        if (this.has(key)) {
+            return this;
+        }
+
+        return this.addService(key, ServiceLifetime.Scoped, serviceFactory, serviceDisposer);
+    }
+
+    /**
+     * Adds a singleton service of type Type to the collection, unless a service is already registered under the key.
+     *
+     * @generic Type - The type of the service to add.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceFactory<Type>} serviceFactory - The factory function to create the service instance.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * // Registers a default that application code can register before or override
+     * serviceCollection.tryAddSingleton('configService', async (provider) => {
+     *   return new ConfigService();
+     * });
+     * ```
+     */
+    tryAddSingleton<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddSingleton<Type>(
+        key: string,
+        serviceFactory: ServiceFactory,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddSingleton<Type>(
+        key: ServiceKey<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        if (this.has(key)) {
+            return this;
+        }
+
         return this.addService(key, ServiceLifetime.Singleton, serviceFactory, serviceDisposer);
     }
 
+    /**
+     * Adds a transient service of type Type to the collection, unless a service is already registered under the key.
+     *
+     * @generic Type - The type of the service to add.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceFactory<Type>} serviceFactory - The factory function to create the service instance.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * // Registers a default that application code can register before or override
+     * serviceCollection.tryAddTransient('loggingService', async (provider) => {
+     *   return new LoggingService();
+     * });
+     * ```
+     */
+    tryAddTransient<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddTransient<Type>(
+        key: string,
+        serviceFactory: ServiceFactory,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddTransient<Type>(
+        key: ServiceKey<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        if (this.has(key)) {
+            return this;
+        }
+
+        return this.addService(key, ServiceLifetime.Transient, serviceFactory, serviceDisposer);
+    }
+
+    /**
+     * Replaces all services registered under a key by a single new service. Named variants of
+     * the key are kept.
+     *
+     * @generic Type - The type of the service.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceLifetime} serviceLifetime - The lifetime of the new service.
+     * @param {ServiceFactory<Type>} serviceFactory - The factory function to create the service instance.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     * @throws {IllegalStateException} When no service is registered under the key.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.replace('mailer', ServiceLifetime.Singleton, async (provider) => {
+     *   return new FakeMailer();
+     * });
+     * ```
+     */
+    replace<Type>(
+        key: ServiceToken<Type>,
+        serviceLifetime: ServiceLifetime,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    replace<Type>(
+        key: string,
+        serviceLifetime: ServiceLifetime,
+        serviceFactory: ServiceFactory,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    replace<Type>(
+        key: ServiceKey<Type>,
+        serviceLifetime: ServiceLifetime,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        if (!this.has(key)) {
+            throw new IllegalStateException(
+                `Cannot replace service '${ServiceToken.keyOf(key)}', it is not registered`,
+            );
+        }
+
+        this.remove(key);
+        return this.addService(key, serviceLifetime, serviceFactory, serviceDisposer);
+    }
+
+    /**
+     * Wraps the current service registered under a key with a decorator, without changing its
+     * factory. The decorated service keeps the lifetime of the service it wraps, and its disposer
+     * keeps disposing the inner instance. A decorator that holds resources of its own passes a
+     * disposer for the decorated instance, which runs before the inner instance is disposed.
+     * Decorators can be stacked, each one wraps the result of the decorators registered before it.
+     *
+     * @generic Type - The type of the service to decorate.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {ServiceDecorator<Type>} serviceDecorator - The decorator function wrapping the service instance.
+     * @param {ServiceDisposer<Type>} [decoratorDisposer] - Optional disposer function to dispose the decorated instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     * @throws {IllegalStateException} When no service is registered under the key.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection
+     *   .addScoped('orderRepository', async (provider) => new PostgresOrderRepository())
+     *   .decorate('orderRepository', async (inner, provider) => new CachingOrderRepository(inner))
+     *   .decorate('orderRepository', async (inner, provider) => new LoggingOrderRepository(inner));
+     *
+     * // Resolves a LoggingOrderRepository wrapping a CachingOrderRepository
+     * ```
+     */
+    decorate<Type>(
+        key: ServiceToken<Type>,
+        serviceDecorator: ServiceDecorator<Type>,
+        decoratorDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    decorate(
+        key: string,
+        serviceDecorator: ServiceDecorator,
+        decoratorDisposer?: ServiceDisposer<Instance>,
+    ): ServiceCollection;
+    decorate<Type>(
+        key: ServiceKey<Type>,
+        serviceDecorator: ServiceDecorator<Type>,
+        decoratorDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        const bindingKey: string = ServiceToken.keyOf(key);
+        const bindings: ServiceBinding[] = this.findAll(key);
+        const binding: ServiceBinding | undefined = bindings.pop();
+
+        if (!binding) {
+            throw new IllegalStateException(
+                `Cannot decorate service '${bindingKey}', it is not registered`,
+            );
+        }
+
+        const innerDisposer: ServiceDisposer<unknown> = binding.serviceDisposer ??
+            defaultServiceDisposer;
+        const innerInstances: WeakMap<object, unknown> = new WeakMap<object, unknown>();
+
+        bindings.push({
+            ...binding,
+            serviceFactory: async (serviceProvider: ServiceProvider): Promise<Instance> => {
+                const inner: Type = (await binding.serviceFactory(serviceProvider)) as Type;
+                const decorated: Instance =
+                    (await serviceDecorator(inner, serviceProvider)) as Instance;
+
+                if (this.isWeakMapKey(decorated)) {
+                    innerInstances.set(decorated, inner);
+                }
+
+                return decorated;
+            },
+            serviceDisposer: async (
+                instance: unknown,
+                serviceProvider: ServiceProvider,
+            ): Promise<void> => {
+                const inner: unknown = this.isWeakMapKey(instance) && innerInstances.has(instance)
+                    ? innerInstances.get(instance)
+                    : instance;
+
+                try {
+                    await decoratorDisposer?.(instance as Type, serviceProvider);
+                } finally {
+                    await innerDisposer(inner, serviceProvider);
+                }
+            },
+        });
+        this._serviceBindings.set(bindingKey, bindings);
+        return this;
+    }
+
+    /**
+     * Removes all services registered under a key. Named variants of the key are kept, remove
+     * them with `removeKeyed`. Does nothing when no service is registered.
+     *
+     * @param {ServiceKey} key - The unique key or typed token representing the service.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.remove('mailer');
+     * ```
+     */
+    remove(key: ServiceKey): ServiceCollection {
+        const bindingKey: string = ServiceToken.keyOf(key);
+
+        this._serviceBindings.delete(bindingKey);
+        this.removeUnregisteredModuleNames(bindingKey);
+        return this;
+    }
+
+    /**
+     * Removes the named variant of a service. Does nothing when the variant is not registered.
+     *
+     * @param {ServiceKey} key - The unique key or typed token representing the service.
+     * @param {string} name - The name of the variant.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.removeKeyed('databaseConnection', 'replica');
+     * ```
+     */
+    removeKeyed(key: ServiceKey, name: string): ServiceCollection {
+        const bindingKey: string = ServiceToken.keyOf(key);
+        const bindings: Map<string, ServiceBinding> | undefined = this._keyedServiceBindings.get(
+            bindingKey,
+        );
+
+        bindings?.delete(name);
+
+        if (bindings?.size === 0) {
+            this._keyedServiceBindings.delete(bindingKey);
+        }
+
+        this.removeUnregisteredModuleNames(bindingKey);
+        return this;
+    }
+
+    /**
+     * Checks whether a service is registered under a key. Named variants are checked with
+     * `hasKeyed`.
+     *
+     * @param {ServiceKey} key - The unique key or typed token representing the service.
+     * @returns {boolean} True when a service is registered, otherwise false.
+     *
+     * @example Usage
+     * ```typescript
+     * if (!serviceCollection.has('mailer')) {
+     *   // Register a default mailer
+     * }
+     * ```
+     */
+    has(key: ServiceKey): boolean {
+        return this.findAll(key).length > 0;
+    }
+
+    /**
+     * Checks whether a named variant of a service is registered.
+     *
+     * @param {ServiceKey} key - The unique key or typed token representing the service.
+     * @param {string} name - The name of the variant.
+     * @returns {boolean} True when the variant is registered, otherwise false.
+     *
+     * @example Usage
+     * ```typescript
+     * if (!serviceCollection.hasKeyed('databaseConnection', 'replica')) {
+     *   // Fall back to the primary connection
+     * }
+     * ```
+     */
+    hasKeyed(key: ServiceKey, name: string): boolean {
+        return this.findKeyed(key, name).isPresent;
+    }
+
+    /**
+     * Adds a named scoped variant of a service to the collection. Registering the same name again
+     * replaces the earlier variant.
+     *
+     * @generic Type - The type of the service to add.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {string} name - The name of the variant.
+     * @param {ServiceFactory<Type>} serviceFactory - The factory function to create the service instance.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.addKeyedScoped('databaseConnection', 'replica', async (provider) => {
+     *   return new DatabaseConnection(replicaUrl);
+     * });
+     * ```
+     */
+    addKeyedScoped<Type>(
+        key: ServiceKey<Type>,
+        name: string,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addKeyedService(
+            key,
+            name,
+            ServiceLifetime.Scoped,
+            serviceFactory,
+            serviceDisposer,
+        );
+    }
+
+    /**
+     * Adds a named singleton variant of a service to the collection. Registering the same name again
+     * replaces the earlier variant.
+     *
+     * @generic Type - The type of the service to add.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {string} name - The name of the variant.
+     * @param {ServiceFactory<Type>} serviceFactory - The factory function to create the service instance.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @param {SingletonServiceOptions<Type>} [singletonServiceOptions] - Optional options, such as whether `initialize` creates the singleton and how it is started.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.addKeyedSingleton('databaseConnection', 'replica', async (provider) => {
+     *   return new DatabaseConnection(replicaUrl);
+     * });
+     * ```
+     */
+    addKeyedSingleton<Type>(
+        key: ServiceKey<Type>,
+        name: string,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+        singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection {
+        return this.addKeyedService(
+            key,
+            name,
+            ServiceLifetime.Singleton,
+            serviceFactory,
+            serviceDisposer,
+            singletonServiceOptions,
+        );
+    }
+
+    /**
+     * Adds a named transient variant of a service to the collection. Registering the same name again
+     * replaces the earlier variant.
+     *
+     * @generic Type - The type of the service to add.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {string} name - The name of the variant.
+     * @param {ServiceFactory<Type>} serviceFactory - The factory function to create the service instance.
+     * @param {ServiceDisposer<Type>} [serviceDisposer] - Optional disposer function to dispose the service instance.
+     * @returns {ServiceCollection} The service collection for chaining.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.addKeyedTransient('databaseConnection', 'replica', async (provider) => {
+     *   return new DatabaseConnection(replicaUrl);
+     * });
+     * ```
+     */
+    addKeyedTransient<Type>(
+        key: ServiceKey<Type>,
+        name: string,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addKeyedService(
+            key,
+            name,
+            ServiceLifetime.Transient,
+            serviceFactory,
+            serviceDisposer,
+        );
+    }
+
+    /**
+     * Applies modules to the collection. The modules a module depends on are applied before it,
+     * modules that were already applied as a dependency are skipped. When a module fails to
+     * register, the registrations it made are undone, so it can be added again.
+     *
+     * @param {...ServiceModule} serviceModules - The modules to apply.
+     * @returns {ServiceCollection} The service collection for chaining.
+     * @throws {IllegalStateException} When a module with the same name was already added, or when
+     * modules depend on each other circularly.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.addModule(persistenceModule, ordersModule, billingModule);
+     * ```
+     */
+    addModule(...serviceModules: ServiceModule[]): ServiceCollection {
+        const moduleNames: Set<string> = new Set<string>();
+
+        for (const serviceModule of serviceModules) {
+            if (
+                this._serviceModules.has(serviceModule.name) || moduleNames.has(serviceModule.name)
+            ) {
+                throw new IllegalStateException(`Module '${serviceModule.name}' is already added`);
+            }
+
+            moduleNames.add(serviceModule.name);
+        }
+
+        for (const serviceModule of serviceModules) {
+            this.applyModule(serviceModule, []);
+        }
+
+        return this;
+    }
+
+    /**
+     * Finds the names of the modules that registered services under a key, in registration order.
+     * More than one name points at modules with conflicting registrations.
+     *
+     * @param {ServiceKey} key - The unique key or typed token representing the service.
+     * @returns {string[]} The module names, empty when no module registered the key.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.findModules('mailer'); // ['notifications', 'testing']
+     * ```
+     */
+    findModules(key: ServiceKey): string[] {
+        return [...(this._moduleNamesByKey.get(ServiceToken.keyOf(key)) ?? [])];
+    }
+
+    /**
+     * Creates a copy of the collection with the same registrations and modules. Registrations
+     * added to the copy are not added to this collection, and the other way around.
+     *
+     * @returns {ServiceCollection} A new collection with the registrations of this collection.
+     *
+     * @example Usage
+     * ```typescript
+     * const testCollection = serviceCollection.clone()
+     *   .replace('mailer', ServiceLifetime.Singleton, async (provider) => new FakeMailer());
+     * ```
+     */
+    clone(): ServiceCollection {
+        const serviceCollection: DIServiceCollection = new DIServiceCollection();
+
+        serviceCollection.copyRegistrations(this);
+        return serviceCollection;
+    }
+
     /**
      * Gets all scoped service bindings.
      *
@@ -172,9 +981,33 @@ export class DIServiceCollection implements ServiceCollection {
     }
 
     /**
-     * Finds a service binding by its key.
+     * Gets the named service bindings of every key with named variants.
+     *
+     * @returns {Map<string, Map<string, ServiceBinding>>} A map of keys to their named service bindings.
+     *
+     * @example Usage
+     * ```typescript
+     * const keyedServices = serviceCollection.keyed;
+     * ```
+     */
+    get keyed(): Map<string, Map<string, ServiceBinding>> {
+        const keyedBindings: Map<string, Map<string, ServiceBinding>> = new Map<
+            string,
+            Map<string, ServiceBinding>
+        >();
+
+        for (const key of this._keyedServiceBindings.keys()) {
+            keyedBindings.set(key, this.findAllKeyed(key));
+        }
+
+        return keyedBindings;
+    }
+
+    /**
+     * Finds a service binding by its key. When several services are registered under the key,
+     * the last registered binding is returned.
      *
-     * @param {string} key - The unique key representing the service.
+     * @param {ServiceKey} key - The unique key or typed token representing the service.
      * @returns {Optional<ServiceBinding>} An Optional containing the service binding if found, otherwise empty.
      *
      * @example Usage
@@ -186,8 +1019,8 @@ export class DIServiceCollection implements ServiceCollection {
      * }
      * ```
      */
-    find(key: string): Optional<ServiceBinding> {
-        const binding: ServiceBinding | undefined = this._serviceBindings.get(key);
+    find(key: ServiceKey): Optional<ServiceBinding> {
+        const binding: ServiceBinding | undefined = this.findAll(key).at(-1);
 
         if (!binding) {
             return Optional.empty<ServiceBinding>();
@@ -196,42 +1029,283 @@ export class DIServiceCollection implements ServiceCollection {
         return Optional.of<ServiceBinding>(binding);
     }
 
+    /**
+     * Finds all service bindings registered under a key, in registration order.
+     *
+     * @param {ServiceKey} key - The unique key or typed token representing the services.
+     * @returns {ServiceBinding[]} The service bindings, empty when no service is registered.
+     *
+     * @example Usage
+     * ```typescript
+     * const handlerBindings = serviceCollection.findAll('orderPlacedHandler');
+     * ```
+     */
+    findAll(key: ServiceKey): ServiceBinding[] {
+        return [...(this._serviceBindings.get(ServiceToken.keyOf(key)) ?? [])];
+    }
+
+    /**
+     * Finds the named variant of a service.
+     *
+     * @param {ServiceKey} key - The unique key or typed token representing the service.
+     * @param {string} name - The name of the variant.
+     * @returns {Optional<ServiceBinding>} An Optional containing the service binding if found, otherwise empty.
+     *
+     * @example Usage
+     * ```typescript
+     * const replicaBinding = serviceCollection.findKeyed('databaseConnection', 'replica');
+     * ```
+     */
+    findKeyed(key: ServiceKey, name: string): Optional<ServiceBinding> {
+        return Optional.ofNullable<ServiceBinding>(this.findAllKeyed(key).get(name));
+    }
+
+    /**
+     * Finds all named variants of a service, in registration order.
+     *
+     * @param {ServiceKey} key - The unique key or typed token representing the service.
+     * @returns {Map<string, ServiceBinding>} The service bindings by name, empty when no named variant is registered.
+     *
+     * @example Usage
+     * ```typescript
+     * const connectionNames = [...serviceCollection.findAllKeyed('databaseConnection').keys()];
+     * // ['primary', 'replica', 'reporting']
+     * ```
+     */
+    findAllKeyed(key: ServiceKey): Map<string, ServiceBinding> {
+        return new Map<string, ServiceBinding>(
+            this._keyedServiceBindings.get(ServiceToken.keyOf(key)) ?? [],
+        );
+    }
+
     private addService<Type>(
-        key: string,
+        key: ServiceKey<Type>,
         serviceLifetime: ServiceLifetime,
-        serviceFactory: ServiceFactory,
+        serviceFactory: ServiceFactory<Type>,
         serviceDisposer?: ServiceDisposer<Type>,
+        bindingOptions?: BindingOptions<Type>,
     ): ServiceCollection {
-        this._serviceBindings.set(
-            key,
-            this.createBinding(serviceLifetime, serviceFactory, serviceDisposer),
+        const bindingKey: string = ServiceToken.keyOf(key);
+        const bindings: ServiceBinding[] = this._serviceBindings.get(bindingKey) ?? [];
+
+        bindings.push(
+            this.createBinding(serviceLifetime, serviceFactory, serviceDisposer, bindingOptions),
+        );
+        this._serviceBindings.set(bindingKey, bindings);
+        this.addModuleName(bindingKey);
+        return this;
+    }
+
+    private addKeyedService<Type>(
+        key: ServiceKey<Type>,
+        name: string,
+        serviceLifetime: ServiceLifetime,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+        bindingOptions?: BindingOptions<Type>,
+    ): ServiceCollection {
+        const bindingKey: string = ServiceToken.keyOf(key);
+        const bindings: Map<string, ServiceBinding> = this._keyedServiceBindings.get(bindingKey) ??
+            new Map<string, ServiceBinding>();
+
+        bindings.set(
+            name,
+            this.createBinding(serviceLifetime, serviceFactory, serviceDisposer, bindingOptions),
         );
+        this._keyedServiceBindings.set(bindingKey, bindings);
+        this.addModuleName(bindingKey);
         return this;
     }
 
+    private applyModule(serviceModule: ServiceModule, modulePath: string[]): void {
+        const appliedModule: ServiceModule | undefined = this._serviceModules.get(
+            serviceModule.name,
+        );
+
+        if (appliedModule === serviceModule) {
+            return;
+        }
+
+        if (appliedModule) {
+            throw new IllegalStateException(`Module '${serviceModule.name}' is already added`);
+        }
+
+        if (modulePath.includes(serviceModule.name)) {
+            throw new IllegalStateException(
+                `Circular module dependency: ${[...modulePath, serviceModule.name].join(' -> ')}`,
+            );
+        }
+
+        for (const dependency of serviceModule.dependsOn ?? []) {
+            this.applyModule(dependency, [...modulePath, serviceModule.name]);
+        }
+
+        const previousModuleName: string | undefined = this._registeringModuleName;
+        const registrations: DIServiceCollection = new DIServiceCollection();
+        registrations.copyRegistrations(this);
+        this._registeringModuleName = serviceModule.name;
+
+        try {
+            serviceModule.register(this);
+        } catch (error) {
+            this.copyRegistrations(registrations);
+            throw error;
+        } finally {
+            this._registeringModuleName = previousModuleName;
+        }
+
+        this._serviceModules.set(serviceModule.name, serviceModule);
+    }
+
+    private copyRegistrations(serviceCollection: DIServiceCollection): void {
+        this._serviceBindings.clear();
+        this._keyedServiceBindings.clear();
+        this._serviceModules.clear();
+        this._moduleNamesByKey.clear();
+
+        for (const [key, bindings] of serviceCollection._serviceBindings) {
+            this._serviceBindings.set(key, [...bindings]);
+        }
+
+        for (const [key, bindings] of serviceCollection._keyedServiceBindings) {
+            this._keyedServiceBindings.set(key, new Map(bindings));
+        }
+
+        for (const [name, serviceModule] of serviceCollection._serviceModules) {
+            this._serviceModules.set(name, serviceModule);
+        }
+
+        for (const [key, moduleNames] of serviceCollection._moduleNamesByKey) {
+            this._moduleNamesByKey.set(key, [...moduleNames]);
+        }
+    }
+
+    private removeUnregisteredModuleNames(bindingKey: string): void {
+        if (!this._serviceBindings.has(bindingKey) && !this._keyedServiceBindings.has(bindingKey)) {
+            this._moduleNamesByKey.delete(bindingKey);
+        }
+    }
+
+    private addModuleName(bindingKey: string): void {
+        if (this._registeringModuleName === undefined) {
+            return;
+        }
+
+        const moduleNames: string[] = this._moduleNamesByKey.get(bindingKey) ?? [];
+
+        if (!moduleNames.includes(this._registeringModuleName)) {
+            moduleNames.push(this._registeringModuleName);
+        }
+
+        this._moduleNamesByKey.set(bindingKey, moduleNames);
+    }
+
+    private createClassFactory<Type>(
+        serviceClass: ServiceClass<Type>,
+        dependencies?: ServiceDependency[],
+    ): ServiceFactory<Type> {
+        const constructorDependencies: ServiceDependency[] = this.findClassDependencies(
+            serviceClass,
+            dependencies,
+        );
+
+        return async (serviceProvider: ServiceProvider): Promise<Type> => {
+            const constructorArguments: unknown[] = [];
+
+            for (const [index, dependency] of constructorDependencies.entries()) {
+                if (dependency instanceof LazyServiceKey) {
+                    constructorArguments.push(serviceProvider.getLazy(dependency.key));
+                    continue;
+                }
+
+                const dependencyKey: string = ServiceToken.keyOf(dependency);
+                const argumentOptional: Optional<unknown> = await serviceProvider.getService(
+                    dependencyKey,
+                );
+
+                if (!argumentOptional.isPresent) {
+                    throw new IllegalStateException(
+                        `Cannot resolve '${dependencyKey}' for constructor argument ${index} of ${serviceClass.name}`,
+                    );
+                }
+
+                constructorArguments.push(argumentOptional.value);
+            }
+
+            return new serviceClass(...constructorArguments);
+        };
+    }
+
+    private findClassDependencies<Type>(
+        serviceClass: ServiceClass<Type>,
+        dependencies?: ServiceDependency[],
+    ): ServiceDependency[] {
+        return dependencies ?? serviceClass.inject ?? [];
+    }
+
+    private findClassDependencyKeys<Type>(
+        serviceClass: ServiceClass<Type>,
+        dependencies?: ServiceDependency[],
+    ): string[] {
+        return this.findClassDependencies(serviceClass, dependencies).map((dependency) =>
+            ServiceToken.keyOf(dependency instanceof LazyServiceKey ? dependency.key : dependency)
+        );
+    }
+
     private createBinding<Type>(
         serviceLifetime: ServiceLifetime,
-        serviceFactory: ServiceFactory,
+        serviceFactory: ServiceFactory<Type>,
         serviceDisposer?: ServiceDisposer<Type>,
+        bindingOptions?: BindingOptions<Type>,
     ): ServiceBinding {
         const activeServiceDisposer: ServiceDisposer<Type> = serviceDisposer ??
             defaultServiceDisposer;
 
         const binding: ServiceBinding = {
             serviceLifetime,
-            serviceFactory,
+            serviceFactory: serviceFactory as ServiceFactory,
             serviceDisposer: activeServiceDisposer as ServiceDisposer<unknown>,
         };
 
+        if (bindingOptions?.shareWithNestedScopes !== undefined) {
+            binding.shareWithNestedScopes = bindingOptions.shareWithNestedScopes;
+        }
+
+        if (bindingOptions?.dependencies !== undefined) {
+            binding.dependencies = bindingOptions.dependencies;
+        }
+
+        if (bindingOptions?.eager !== undefined) {
+            binding.eager = bindingOptions.eager;
+        }
+
+        if (bindingOptions?.onStart !== undefined) {
+            binding.onStart = bindingOptions.onStart as ServiceStartHook<unknown>;
+        }
+
+        if (bindingOptions?.hosted !== undefined) {
+            binding.hosted = bindingOptions.hosted;
+        }
+
         return binding;
     }
 
+    private isWeakMapKey(instance: unknown): instance is object {
+        return (typeof instance === 'object' && instance !== null) ||
+            typeof instance === 'function';
+    }
+
     private getBindingsByLifetime(serviceLifetime: ServiceLifetime): Map<string, ServiceBinding> {
         const bindings: Map<string, ServiceBinding> = new Map<string, ServiceBinding>();
 
-        for (const [key, binding] of this._serviceBindings) {
-            if (binding.serviceLifetime === serviceLifetime) {
-                bindings.set(key, binding);
+        for (const key of this._serviceBindings.keys()) {
+            const bindingOptional: Optional<ServiceBinding> = this.find(key);
+
+            if (
+                bindingOptional.isPresent &&
+                bindingOptional.value.serviceLifetime === serviceLifetime
+            ) {
+                bindings.set(key, bindingOptional.value);
             }
         }
 
@@ -240,3 +1314,11 @@ export class DIServiceCollection implements ServiceCollection {
 
     private constructor() {}
 }
+
+/**
+ * The optional properties of a service binding set at registration.
+ */
+interface BindingOptions<Type> extends ScopedServiceOptions, SingletonServiceOptions<Type> {
+    dependencies?: string[];
+    hosted?: boolean;
+}
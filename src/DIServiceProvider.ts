@@ -7,13 +7,35 @@
 
 import { IllegalStateException, Optional } from '@domaincrafters/std';
 import {
+    CircularDependencyException,
+    defaultServiceDisposer,
+    DependencyGraph,
+    type DependencyGraphEdge,
+    type DependencyGraphNode,
+    DIServiceCollection,
+    DIServiceValidator,
+    DisposalException,
+    type DisposalFailure,
     EmptyDIServiceCollection,
     EmptyDIServiceProvider,
+    type HostedService,
+    InitializationException,
+    type InitializationFailure,
+    type InitializeOptions,
     type Instance,
+    Lazy,
+    type ScopeOptions,
     type ServiceBinding,
     type ServiceCollection,
+    type ServiceEvent,
+    type ServiceKey,
     ServiceLifetime,
+    ServiceNotFoundException,
     type ServiceProvider,
+    type ServiceProviderObserver,
+    type ServiceProviderOptions,
+    ServiceToken,
+    type ServiceValidationProblem,
 } from '@domaincrafters/di/mod.ts';
 
 /**
@@ -38,74 +60,232 @@ import {
 export class DIServiceProvider implements ServiceProvider {
     private readonly _serviceLifetime: ServiceLifetime;
     private _isDisposed: boolean = false;
-    private _instances: Map<string, Instance>;
+    private _instances: Map<ServiceBinding, Instance>;
+    private _disposableInstances: DisposableInstance[] = [];
+    private _scopeValues: Map<string, unknown> = new Map<string, unknown>();
+    private _resolvedDependencies: Map<string, Set<string>> = new Map<string, Set<string>>();
+    private _startedBindings: Set<ServiceBinding> = new Set<ServiceBinding>();
+    private readonly _pendingInstances: Map<ServiceBinding, PendingInstance> = new Map<
+        ServiceBinding,
+        PendingInstance
+    >();
+    private readonly _pendingWaits: Set<PendingWait> = new Set<PendingWait>();
     private _rootServiceProvider: ServiceProvider;
+    private _parentServiceProvider: ServiceProvider;
+    private _parentScopeServiceProvider: ServiceProvider;
     private _serviceCollection: ServiceCollection;
+    private readonly _observers: ServiceProviderObserver[];
+    private readonly _scopeId: string = crypto.randomUUID();
 
     /**
      * Creates a new instance of DIServiceProvider based on the provided service collection.
+     * The provider uses a snapshot of the collection, so services registered in the collection
+     * afterwards are not visible to the provider or its scopes.
      *
      * @param {ServiceCollection} serviceCollection - The collection of services to build the provider.
+     * @param {ServiceProviderOptions} [options] - The observers of the provider.
      * @returns {ServiceProvider} A new instance of DIServiceProvider.
      *
      * @example Usage
      * ```typescript
      * const serviceProvider = DIServiceProvider.create(serviceCollection);
+     * const observedProvider = DIServiceProvider.create(serviceCollection, {
+     *   observers: [{ onCreated: (event) => console.debug(event.key, event.duration) }],
+     * });
      * ```
      */
-    static create(serviceCollection: ServiceCollection): ServiceProvider {
+    static create(
+        serviceCollection: ServiceCollection,
+        options?: ServiceProviderOptions,
+    ): ServiceProvider {
         const rootProvider: ServiceProvider = EmptyDIServiceProvider.instance();
-        const instances: Map<string, Instance> = new Map<string, Instance>();
+        const parentProvider: ServiceProvider = EmptyDIServiceProvider.instance();
+        const instances: Map<ServiceBinding, Instance> = new Map<ServiceBinding, Instance>();
         const serviceLifetime: ServiceLifetime = ServiceLifetime.Singleton;
 
-        return new DIServiceProvider(rootProvider, serviceCollection, serviceLifetime, instances);
+        return new DIServiceProvider(
+            rootProvider,
+            parentProvider,
+            EmptyDIServiceProvider.instance(),
+            serviceCollection.clone(),
+            serviceLifetime,
+            instances,
+            [...(options?.observers ?? [])],
+        );
+    }
+
+    /**
+     * Validates a service collection by resolving every registered service once and reports
+     * missing, circular and captive dependencies and failing factories.
+     *
+     * @param {ServiceCollection} serviceCollection - The collection of services to validate.
+     * @param {Record<string, unknown>} [scopeValues] - Sample values for the values provided to scopes, such as the current user.
+     * @returns {Promise<ServiceValidationProblem[]>} The problems found, empty when the collection is valid.
+     *
+     * @example Usage
+     * ```typescript
+     * const problems = await DIServiceProvider.validate(serviceCollection);
+     * if (problems.length > 0) {
+     *   throw new Error(problems.map((problem) => problem.message).join('\n'));
+     * }
+     * const serviceProvider = DIServiceProvider.create(serviceCollection);
+     * ```
+     */
+    static async validate(
+        serviceCollection: ServiceCollection,
+        scopeValues?: Record<string, unknown>,
+    ): Promise<ServiceValidationProblem[]> {
+        return await DIServiceValidator.create(serviceCollection).validate(scopeValues);
     }
 
     private constructor(
         rootServiceProvider: ServiceProvider,
+        parentServiceProvider: ServiceProvider,
+        parentScopeServiceProvider: ServiceProvider,
         serviceCollection: ServiceCollection,
         serviceLifetime: ServiceLifetime,
-        instances: Map<string, Instance>,
+        instances: Map<ServiceBinding, Instance>,
+        observers: ServiceProviderObserver[],
     ) {
         this._rootServiceProvider = rootServiceProvider;
+        this._parentServiceProvider = parentServiceProvider;
+        this._parentScopeServiceProvider = parentScopeServiceProvider;
         this._serviceCollection = serviceCollection;
         this._serviceLifetime = serviceLifetime;
         this._instances = instances;
+        this._observers = observers;
     }
 
     /**
-     * Creates a new scoped service provider.
+     * Creates a new scoped service provider, optionally with values provided to the scope.
+     *
+     * By default a scope created from another scope is independent of it. A nested scope resolves
+     * the scoped instances of the scope it is created from, and the values provided to it, except
+     * for scoped services registered with `shareWithNestedScopes: false`, which it creates itself.
+     * Dispose a nested scope before the scope it is nested in.
      *
+     * @param {ScopeOptions} [options] - The values to provide to the scope and whether it is nested.
      * @returns {ServiceProvider} A new scoped instance of DIServiceProvider.
      *
      * @example Usage
      * ```typescript
      * const scopedProvider = serviceProvider.createScope();
+     * const requestScope = serviceProvider.createScope({ values: { currentUser: user } });
+     * const unitOfWorkScope = requestScope.createScope({ nested: true });
      * ```
      */
-    public createScope(): ServiceProvider {
+    public createScope(options?: ScopeOptions): ServiceProvider {
         this.ensureServiceProviderIsNotDisposed();
 
         let rootServiceProvider: ServiceProvider = this._rootServiceProvider;
+        let parentScopeServiceProvider: ServiceProvider = EmptyDIServiceProvider.instance();
 
         if (this._serviceLifetime === ServiceLifetime.Singleton) {
             rootServiceProvider = this;
+        } else if (options?.nested) {
+            parentScopeServiceProvider = this;
         }
 
-        const newScopedInstances: Map<string, Instance> = new Map<string, Instance>();
+        const newScopedInstances: Map<ServiceBinding, Instance> = new Map<
+            ServiceBinding,
+            Instance
+        >();
 
-        return new DIServiceProvider(
+        const scopeProvider: DIServiceProvider = new DIServiceProvider(
             rootServiceProvider,
+            this._parentServiceProvider,
+            parentScopeServiceProvider,
             this._serviceCollection,
             ServiceLifetime.Scoped,
             newScopedInstances,
+            this._observers,
+        );
+
+        for (const [key, value] of Object.entries(options?.values ?? {})) {
+            scopeProvider.provide(key, value);
+        }
+
+        return scopeProvider;
+    }
+
+    /**
+     * Provides a value to this scope, such as the current user or a correlation id. The value is
+     * resolved by `getService` inside this scope, its nested scopes and the scopes of its child
+     * providers, and takes precedence over registered services. A child provider is a root
+     * provider, so it does not resolve the value itself. The value is never disposed by the
+     * provider and is not visible to singletons.
+     *
+     * @param {ServiceKey<Type>} serviceKey - The unique key or typed token representing the value.
+     * @param {Type} value - The value to provide.
+     * @returns {ServiceProvider} The scope for chaining.
+     * @throws {IllegalStateException} When this provider is not a scope.
+     *
+     * @example Usage
+     * ```typescript
+     * const requestScope = serviceProvider.createScope()
+     *   .provide('currentUser', user)
+     *   .provide('correlationId', request.headers.get('x-correlation-id'));
+     * ```
+     */
+    public provide<Type>(serviceKey: ServiceKey<Type>, value: Type): ServiceProvider {
+        this.ensureServiceProviderIsNotDisposed();
+
+        const key: string = ServiceToken.keyOf(serviceKey);
+
+        if (this._serviceLifetime !== ServiceLifetime.Scoped) {
+            throw new IllegalStateException(
+                `Cannot provide '${key}' to a root service provider, values can only be provided to a scope`,
+            );
+        }
+
+        this._scopeValues.set(key, value);
+        return this;
+    }
+
+    /**
+     * Creates a child service provider with its own service collection layered on top of the
+     * collection of this provider. Services registered in the child override those of this
+     * provider, other services fall back to this provider.
+     *
+     * Singletons belong to the layer that registered them: singletons of this provider are shared
+     * with the child, singletons registered in the child are created and disposed by the child.
+     * Dispose a child before its parent.
+     *
+     * @param {(serviceCollection: ServiceCollection) => void} configure - Registers the services of the child.
+     * @returns {ServiceProvider} A new child service provider.
+     *
+     * @example Usage
+     * ```typescript
+     * const tenantProvider = serviceProvider.createChild((serviceCollection) => {
+     *   serviceCollection.addSingleton('tenantConfig', async (provider) => new TenantConfig('acme'));
+     * });
+     * ```
+     */
+    public createChild(configure: (serviceCollection: ServiceCollection) => void): ServiceProvider {
+        this.ensureServiceProviderIsNotDisposed();
+
+        const childServiceCollection: ServiceCollection = DIServiceCollection.create();
+        configure(childServiceCollection);
+
+        return new DIServiceProvider(
+            EmptyDIServiceProvider.instance(),
+            this,
+            EmptyDIServiceProvider.instance(),
+            childServiceCollection.clone(),
+            ServiceLifetime.Singleton,
+            new Map<ServiceBinding, Instance>(),
+            this._observers,
         );
     }
 
     /**
      * Disposes the service provider and releases all it's own resources.
+     * Services are disposed in reverse creation order, so dependents are disposed before
+     * their dependencies. Every service is disposed, even when others fail. A service still being
+     * created is disposed as soon as its factory completes, and its resolution fails.
      *
      * @returns {Promise<void>} A promise that resolves when disposal is complete.
+     * @throws {DisposalException} When one or more services failed to dispose.
      *
      * @example Usage
      * ```typescript
@@ -115,25 +295,68 @@ export class DIServiceProvider implements ServiceProvider {
     public async dispose(): Promise<void> {
         this.ensureServiceProviderIsNotDisposed();
 
-        const disposableInstances: Map<string, Instance> = this._instances;
-        const serviceCollection: ServiceCollection = this._serviceCollection;
+        const disposableInstances: DisposableInstance[] = this._disposableInstances;
         this._isDisposed = true;
         this._rootServiceProvider = EmptyDIServiceProvider.instance();
+        this._parentServiceProvider = EmptyDIServiceProvider.instance();
+        this._parentScopeServiceProvider = EmptyDIServiceProvider.instance();
         this._serviceCollection = EmptyDIServiceCollection.instance();
-        this._instances = new Map<string, Instance>();
+        this._instances = new Map<ServiceBinding, Instance>();
+        this._disposableInstances = [];
+        this._scopeValues = new Map<string, unknown>();
+
+        const failures: DisposalFailure[] = [];
 
-        for (const [key, instance] of disposableInstances) {
-            const serviceBindingOptional: Optional<ServiceBinding> = serviceCollection.find(key);
-            if (serviceBindingOptional.isPresent) {
-                await this.disposeService(serviceBindingOptional.value, instance);
+        for (const { key, binding, instance } of [...disposableInstances].reverse()) {
+            const event: ServiceEvent = this.createServiceEvent(key, binding, []);
+            const startTime: number = performance.now();
+            this.notifyObservers('onDisposing', event);
+
+            try {
+                await this.disposeService(binding, instance);
+                this.notifyObservers('onDisposed', {
+                    ...event,
+                    duration: performance.now() - startTime,
+                });
+            } catch (error) {
+                failures.push({ key, error });
+                this.notifyObservers('onError', {
+                    ...event,
+                    duration: performance.now() - startTime,
+                    error,
+                });
             }
         }
+
+        if (failures.length > 0) {
+            throw new DisposalException(failures);
+        }
+    }
+
+    /**
+     * Disposes the service provider when it is not disposed yet, so it can be used with `await using`.
+     *
+     * @returns {Promise<void>} A promise that resolves when disposal is complete.
+     * @throws {DisposalException} When one or more services failed to dispose.
+     *
+     * @example Usage
+     * ```typescript
+     * {
+     *   await using scope = serviceProvider.createScope();
+     *   const userService = await scope.getRequiredService<UserService>('userService');
+     * } // scope is disposed here
+     * ```
+     */
+    public async [Symbol.asyncDispose](): Promise<void> {
+        if (!this._isDisposed) {
+            await this.dispose();
+        }
     }
 
     /**
      * Retrieves a service instance by its key.
      *
-     * @param {string} key - The unique key representing the service.
+     * @param {ServiceKey<Type>} serviceKey - The unique key or typed token representing the service.
      * @returns {Promise<Optional<Type>>} An Optional containing the service instance if found, otherwise empty.
      *
      * @example Usage
@@ -143,73 +366,742 @@ export class DIServiceProvider implements ServiceProvider {
      *   const userService = userServiceOptional.value;
      *   // Use the service
      * }
+     *
+     * const userServiceToken = ServiceToken.create<UserService>('userService');
+     * const typedOptional = await serviceProvider.getService(userServiceToken);
+     * ```
+     */
+    public async getService<Type>(serviceKey: ServiceKey<Type>): Promise<Optional<Type>> {
+        return await this.resolveService<Type>(ServiceToken.keyOf(serviceKey), []);
+    }
+
+    /**
+     * Retrieves a service instance by its key and throws when it cannot be resolved.
+     *
+     * @param {ServiceKey<Type>} serviceKey - The unique key or typed token representing the service.
+     * @returns {Promise<Type>} The service instance.
+     * @throws {ServiceNotFoundException} When the service cannot be resolved.
+     *
+     * @example Usage
+     * ```typescript
+     * const userService = await serviceProvider.getRequiredService<UserService>('userService');
+     * ```
+     */
+    public async getRequiredService<Type>(serviceKey: ServiceKey<Type>): Promise<Type> {
+        return await this.resolveRequiredService<Type>(ServiceToken.keyOf(serviceKey), []);
+    }
+
+    /**
+     * Retrieves the instances of every service registered under a key, in registration order.
+     * Each registration is resolved according to its own lifetime.
+     *
+     * @param {ServiceKey<Type>} serviceKey - The unique key or typed token representing the services.
+     * @returns {Promise<Type[]>} The service instances, empty when no service is registered.
+     *
+     * @example Usage
+     * ```typescript
+     * const handlers = await serviceProvider.getServices<OrderPlacedHandler>('orderPlacedHandler');
+     * for (const handler of handlers) {
+     *   await handler.handle(event);
+     * }
+     * ```
+     */
+    public async getServices<Type>(serviceKey: ServiceKey<Type>): Promise<Type[]> {
+        return await this.resolveServices<Type>(ServiceToken.keyOf(serviceKey), []);
+    }
+
+    /**
+     * Retrieves the named variant of a service, falling back to the unnamed service registered
+     * under the key when no variant with that name is registered.
+     *
+     * @param {ServiceKey<Type>} serviceKey - The unique key or typed token representing the service.
+     * @param {string} name - The name of the variant.
+     * @returns {Promise<Optional<Type>>} An Optional containing the service instance if found, otherwise empty.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection
+     *   .addSingleton('databaseConnection', async (provider) => new DatabaseConnection(primaryUrl))
+     *   .addKeyedSingleton('databaseConnection', 'replica', async (provider) => {
+     *     return new DatabaseConnection(replicaUrl);
+     *   });
+     *
+     * // The replica connection
+     * await serviceProvider.getKeyedService<DatabaseConnection>('databaseConnection', 'replica');
+     * // No reporting variant registered, the primary connection
+     * await serviceProvider.getKeyedService<DatabaseConnection>('databaseConnection', 'reporting');
+     * ```
+     */
+    public async getKeyedService<Type>(
+        serviceKey: ServiceKey<Type>,
+        name: string,
+    ): Promise<Optional<Type>> {
+        return await this.resolveKeyedService<Type>(ServiceToken.keyOf(serviceKey), name, []);
+    }
+
+    /**
+     * Creates a handle that resolves a service on first access, from this service provider.
+     * The service is resolved according to its lifetime, like `getRequiredService`.
+     *
+     * @param {ServiceKey<Type>} serviceKey - The unique key or typed token representing the service.
+     * @returns {Lazy<Type>} A lazy handle to the service.
+     * @throws {IllegalStateException} When the handle is first accessed after the provider was disposed.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.addScoped('reportService', async (provider) => {
+     *   return new ReportService(provider.getLazy<ReportGenerator>('reportGenerator'));
+     * });
+     * ```
+     */
+    public getLazy<Type>(serviceKey: ServiceKey<Type>): Lazy<Type> {
+        const key: string = ServiceToken.keyOf(serviceKey);
+
+        return Lazy.create<Type>(async () => {
+            if (this._isDisposed) {
+                throw new IllegalStateException(
+                    `Cannot resolve lazy service '${key}', the service provider has been disposed`,
+                );
+            }
+
+            return await this.resolveRequiredService<Type>(key, []);
+        });
+    }
+
+    /**
+     * Gets the graph of the services registered in this provider and its parents and the
+     * dependencies between them. Dependencies are those declared by class registrations and
+     * those resolved by factories of this provider and its scopes so far, so factory
+     * registrations only show their dependencies once they have been resolved. A singleton
+     * depending on a scoped service is marked as a lifetime violation.
+     *
+     * @returns {DependencyGraph} The dependency graph.
+     *
+     * @example Usage
+     * ```typescript
+     * const dependencyGraph = serviceProvider.getDependencyGraph();
+     *
+     * await Deno.writeTextFile('dependencies.json', JSON.stringify(dependencyGraph, null, 2));
+     * await Deno.writeTextFile('dependencies.dot', dependencyGraph.toDot());
+     * await Deno.writeTextFile('dependencies.mmd', dependencyGraph.toMermaid());
+     * ```
+     */
+    public getDependencyGraph(): DependencyGraph {
+        const nodes: DependencyGraphNode[] = [];
+        const dependencies: Pick<DependencyGraphEdge, 'from' | 'to'>[] = [];
+
+        this.collectDependencyGraph(nodes, dependencies);
+        return DependencyGraph.create(nodes, dependencies);
+    }
+
+    /**
+     * Retrieves the hosted services registered in this provider, one instance for every
+     * `addHostedService` registration, together with its key. Registrations of the same key are
+     * all returned, also when a later registration replaces them for `getService`.
+     *
+     * @returns {Promise<[string, HostedService][]>} The keys and instances of the hosted services.
+     *
+     * @example Usage
+     * ```typescript
+     * for (const [key, hostedService] of await serviceProvider.getHostedServices()) {
+     *   await hostedService.start(abortController.signal);
+     * }
      * ```
      */
-    public async getService<Type>(key: string): Promise<Optional<Type>> {
+    public async getHostedServices(): Promise<[string, HostedService][]> {
         this.ensureServiceProviderIsNotDisposed();
 
-        const transientOptional: Optional<Type> = await this.resolveTransientService<Type>(key);
+        const hostedServices: [string, HostedService][] = [];
 
-        if (transientOptional.isPresent) {
-            return transientOptional;
+        for (const key of this.findServiceKeys()) {
+            for (const binding of this._serviceCollection.findAll(key)) {
+                if (!binding.hosted) {
+                    continue;
+                }
+
+                const hostedService: Optional<HostedService> = await this
+                    .resolveLayeredBinding<HostedService>(key, binding, this, []);
+                hostedServices.push([key, hostedService.value]);
+            }
         }
 
-        const localOptional: Optional<Type> = await this.resolveLocalService<Type>(key);
+        return hostedServices;
+    }
 
-        if (localOptional.isPresent) {
-            return localOptional;
+    /**
+     * Creates the singletons registered in this provider up front, so the first request does not
+     * pay for them and misconfiguration surfaces before the application accepts requests. Every
+     * singleton is created before failures are reported together. Once all are created, the
+     * start hooks run in creation order, so a singleton starts after its dependencies; the first
+     * failing hook stops initialization. A hook that succeeded never runs twice, so initializing
+     * again only starts singletons created since and those whose hook failed. A child provider
+     * initializes the singletons registered in the child only.
+     *
+     * @param {InitializeOptions} [options] - Whether only singletons flagged eager are created.
+     * @returns {Promise<void>} A promise that resolves when every singleton is created and started.
+     * @throws {InitializationException} When a singleton cannot be created or started.
+     * @throws {IllegalStateException} When this provider is a scope.
+     *
+     * @example Usage
+     * ```typescript
+     * serviceCollection.addSingleton('databasePool', databasePoolFactory, undefined, {
+     *   eager: true,
+     *   onStart: async (pool, provider) => await pool.connect(),
+     * });
+     *
+     * const serviceProvider = DIServiceProvider.create(serviceCollection);
+     * await serviceProvider.initialize({ eagerOnly: true });
+     * // Start accepting requests
+     * ```
+     */
+    public async initialize(options?: InitializeOptions): Promise<void> {
+        this.ensureServiceProviderIsNotDisposed();
+
+        if (this._serviceLifetime !== ServiceLifetime.Singleton) {
+            throw new IllegalStateException(
+                'Cannot initialize a scope, only a root service provider creates singletons',
+            );
+        }
+
+        const failures: InitializationFailure[] = [];
+
+        for (const [key, binding] of this.findSingletonBindings()) {
+            if (options?.eagerOnly && !binding.eager) {
+                continue;
+            }
+
+            try {
+                await this.resolveLayeredBinding(key, binding, this, []);
+            } catch (error) {
+                failures.push({ key, error });
+            }
         }
 
-        return await this.resolveRootService<Type>(key);
+        if (failures.length > 0) {
+            throw new InitializationException(failures);
+        }
+
+        for (const { key, binding, instance } of this._disposableInstances) {
+            if (!binding.onStart || this._startedBindings.has(binding)) {
+                continue;
+            }
+
+            try {
+                await binding.onStart(instance, this);
+            } catch (error) {
+                throw new InitializationException([{ key, error }]);
+            }
+
+            this._startedBindings.add(binding);
+        }
     }
 
-    private async resolveTransientService<Type>(key: string): Promise<Optional<Type>> {
-        const serviceBindingOptional = this._serviceCollection
-            .find(key)
-            .filter((binding) => binding.serviceLifetime === ServiceLifetime.Transient);
+    private findSingletonBindings(): [string, ServiceBinding][] {
+        const singletonBindings: [string, ServiceBinding][] = [];
 
-        if (serviceBindingOptional.isPresent) {
-            const instance: Instance = await this.createInstance(serviceBindingOptional.value);
-            return Optional.ofNullable<Type>(instance as Type);
+        for (const key of this.findServiceKeys()) {
+            for (const binding of this._serviceCollection.findAll(key)) {
+                if (binding.serviceLifetime === ServiceLifetime.Singleton) {
+                    singletonBindings.push([key, binding]);
+                }
+            }
         }
 
-        return Optional.empty<Type>();
+        for (const [key, namedBindings] of this._serviceCollection.keyed) {
+            for (const [name, binding] of namedBindings) {
+                if (binding.serviceLifetime === ServiceLifetime.Singleton) {
+                    singletonBindings.push([`${key}[${name}]`, binding]);
+                }
+            }
+        }
+
+        return singletonBindings;
     }
 
-    private async resolveLocalService<Type>(key: string): Promise<Optional<Type>> {
-        if (this._instances.has(key)) {
-            return Optional.ofNullable<Type>(this._instances.get(key) as Type);
+    private findServiceKeys(): string[] {
+        return [
+            ...new Set<string>([
+                ...this._serviceCollection.singleton.keys(),
+                ...this._serviceCollection.scoped.keys(),
+                ...this._serviceCollection.transient.keys(),
+            ]),
+        ];
+    }
+
+    private collectDependencyGraph(
+        nodes: DependencyGraphNode[],
+        dependencies: Pick<DependencyGraphEdge, 'from' | 'to'>[],
+    ): void {
+        const bindingsByKey: [string, ServiceBinding[]][] = this.findServiceKeys().map((key) => [
+            key,
+            this._serviceCollection.findAll(key),
+        ]);
+
+        for (const [key, namedBindings] of this._serviceCollection.keyed) {
+            for (const [name, binding] of namedBindings) {
+                bindingsByKey.push([`${key}[${name}]`, [binding]]);
+            }
+        }
+
+        for (const [key, bindings] of bindingsByKey) {
+            nodes.push({ key, lifetime: bindings.at(-1)?.serviceLifetime });
+
+            for (const dependency of bindings.flatMap((binding) => binding.dependencies ?? [])) {
+                dependencies.push({ from: key, to: dependency });
+            }
+        }
+
+        for (const [key, resolvedKeys] of this.findDependencyRecorder()._resolvedDependencies) {
+            for (const dependency of resolvedKeys) {
+                dependencies.push({ from: key, to: dependency });
+            }
         }
 
-        const serviceBindingOptional = this._serviceCollection
-            .find(key)
-            .filter((binding) => binding.serviceLifetime === this._serviceLifetime);
+        if (this._parentServiceProvider instanceof DIServiceProvider) {
+            this._parentServiceProvider.collectDependencyGraph(nodes, dependencies);
+        }
+    }
 
-        if (!serviceBindingOptional.isPresent) {
+    private findDependencyRecorder(): DIServiceProvider {
+        return this._rootServiceProvider instanceof DIServiceProvider
+            ? this._rootServiceProvider
+            : this;
+    }
+
+    private recordDependency(key: string, resolutionPath: string[]): void {
+        const dependentKey: string | undefined = resolutionPath.at(-1);
+
+        if (dependentKey === undefined) {
+            return;
+        }
+
+        const resolvedDependencies: Map<string, Set<string>> =
+            this.findDependencyRecorder()._resolvedDependencies;
+        const resolvedKeys: Set<string> = resolvedDependencies.get(dependentKey) ??
+            new Set<string>();
+
+        resolvedKeys.add(key);
+        resolvedDependencies.set(dependentKey, resolvedKeys);
+    }
+
+    private async resolveRequiredService<Type>(
+        key: string,
+        resolutionPath: string[],
+    ): Promise<Type> {
+        const serviceOptional: Optional<Type> = await this.resolveService<Type>(
+            key,
+            resolutionPath,
+        );
+
+        if (!serviceOptional.isPresent) {
+            throw new ServiceNotFoundException(key, resolutionPath, this._serviceLifetime);
+        }
+
+        return serviceOptional.value;
+    }
+
+    private async resolveService<Type>(
+        key: string,
+        resolutionPath: string[],
+    ): Promise<Optional<Type>> {
+        this.ensureServiceProviderIsNotDisposed();
+        this.ensureNoCircularDependency(key, resolutionPath);
+        this.recordDependency(key, resolutionPath);
+
+        const scopeValue: Optional<unknown> = this.findScopeValue(key);
+
+        if (scopeValue.isPresent) {
+            return Optional.of<Type>(scopeValue.value as Type);
+        }
+
+        const { bindings, serviceProvider }: LayeredBindings = this.findLayeredBindings(
+            (serviceCollection: ServiceCollection) => serviceCollection.findAll(key),
+        );
+        const binding: ServiceBinding | undefined = bindings.at(-1);
+
+        if (!binding) {
             return Optional.empty<Type>();
         }
 
-        const instance: Type = await this.addInstance<Type>(key, serviceBindingOptional.value);
+        return await this.resolveLayeredBinding<Type>(
+            key,
+            binding,
+            serviceProvider,
+            resolutionPath,
+        );
+    }
+
+    private async resolveKeyedService<Type>(
+        key: string,
+        name: string,
+        resolutionPath: string[],
+    ): Promise<Optional<Type>> {
+        this.ensureServiceProviderIsNotDisposed();
+
+        const { bindings, serviceProvider }: LayeredBindings = this.findLayeredBindings(
+            (serviceCollection: ServiceCollection) => {
+                const bindingOptional: Optional<ServiceBinding> = serviceCollection.findKeyed(
+                    key,
+                    name,
+                );
+                return bindingOptional.isPresent ? [bindingOptional.value] : [];
+            },
+        );
+        const binding: ServiceBinding | undefined = bindings.at(-1);
+
+        if (!binding) {
+            return await this.resolveService<Type>(key, resolutionPath);
+        }
+
+        const keyedKey: string = `${key}[${name}]`;
+        this.ensureNoCircularDependency(keyedKey, resolutionPath);
+        this.recordDependency(keyedKey, resolutionPath);
+
+        return await this.resolveLayeredBinding<Type>(
+            keyedKey,
+            binding,
+            serviceProvider,
+            resolutionPath,
+        );
+    }
+
+    private async resolveServices<Type>(key: string, resolutionPath: string[]): Promise<Type[]> {
+        this.ensureServiceProviderIsNotDisposed();
+        this.ensureNoCircularDependency(key, resolutionPath);
+        this.recordDependency(key, resolutionPath);
+
+        const scopeValue: Optional<unknown> = this.findScopeValue(key);
+
+        if (scopeValue.isPresent) {
+            return [scopeValue.value as Type];
+        }
+
+        const { bindings, serviceProvider }: LayeredBindings = this.findLayeredBindings(
+            (serviceCollection: ServiceCollection) => serviceCollection.findAll(key),
+        );
+        const services: Type[] = [];
+
+        for (const binding of bindings) {
+            const serviceOptional: Optional<Type> = await this.resolveLayeredBinding<Type>(
+                key,
+                binding,
+                serviceProvider,
+                resolutionPath,
+            );
+
+            if (serviceOptional.isPresent) {
+                services.push(serviceOptional.value);
+            }
+        }
+
+        return services;
+    }
+
+    private findScopeValue(key: string): Optional<unknown> {
+        if (this._serviceLifetime !== ServiceLifetime.Scoped) {
+            return Optional.empty<unknown>();
+        }
+
+        return this.findProvidedValue(key);
+    }
+
+    private findProvidedValue(key: string): Optional<unknown> {
+        if (this._scopeValues.has(key)) {
+            return Optional.ofNullable<unknown>(this._scopeValues.get(key));
+        }
+
+        if (this._parentScopeServiceProvider instanceof DIServiceProvider) {
+            return this._parentScopeServiceProvider.findProvidedValue(key);
+        }
+
+        if (this._parentServiceProvider instanceof DIServiceProvider) {
+            return this._parentServiceProvider.findProvidedValue(key);
+        }
+
+        return Optional.empty<unknown>();
+    }
+
+    private findLayeredBindings(
+        findBindings: (serviceCollection: ServiceCollection) => ServiceBinding[],
+    ): LayeredBindings {
+        const bindings: ServiceBinding[] = findBindings(this._serviceCollection);
+
+        if (bindings.length > 0 || !(this._parentServiceProvider instanceof DIServiceProvider)) {
+            return { bindings, serviceProvider: this };
+        }
+
+        return this._parentServiceProvider.findLayeredBindings(findBindings);
+    }
+
+    private async resolveLayeredBinding<Type>(
+        key: string,
+        binding: ServiceBinding,
+        serviceProvider: DIServiceProvider,
+        resolutionPath: string[],
+    ): Promise<Optional<Type>> {
+        const event: ServiceEvent = this.createServiceEvent(key, binding, resolutionPath);
+        const startTime: number = performance.now();
+        const owningServiceProvider: DIServiceProvider =
+            serviceProvider !== this && binding.serviceLifetime === ServiceLifetime.Singleton
+                ? serviceProvider
+                : this;
+        this.notifyObservers('onResolving', event);
+
+        try {
+            const service: Optional<Type> = await owningServiceProvider.resolveBinding<Type>(
+                key,
+                binding,
+                resolutionPath,
+            );
+            this.notifyObservers('onResolved', {
+                ...event,
+                duration: performance.now() - startTime,
+            });
+            return service;
+        } catch (error) {
+            this.notifyObservers('onError', {
+                ...event,
+                duration: performance.now() - startTime,
+                error,
+            });
+            throw error;
+        }
+    }
+
+    private async resolveBinding<Type>(
+        key: string,
+        binding: ServiceBinding,
+        resolutionPath: string[],
+    ): Promise<Optional<Type>> {
+        this.ensureServiceProviderIsNotDisposed();
+
+        if (binding.serviceLifetime === ServiceLifetime.Transient) {
+            return await this.resolveTransientService<Type>(key, binding, resolutionPath);
+        }
+
+        if (binding.serviceLifetime === this._serviceLifetime) {
+            if (
+                this._parentScopeServiceProvider instanceof DIServiceProvider &&
+                this.isSharedWithNestedScopes(binding)
+            ) {
+                return await this._parentScopeServiceProvider.resolveBinding<Type>(
+                    key,
+                    binding,
+                    resolutionPath,
+                );
+            }
+
+            return await this.resolveLocalService<Type>(key, binding, resolutionPath);
+        }
+
+        return await this.resolveRootService<Type>(key, binding, resolutionPath);
+    }
+
+    private isSharedWithNestedScopes(binding: ServiceBinding): boolean {
+        return binding.serviceLifetime === ServiceLifetime.Scoped &&
+            binding.shareWithNestedScopes !== false;
+    }
+
+    private async resolveTransientService<Type>(
+        key: string,
+        binding: ServiceBinding,
+        resolutionPath: string[],
+    ): Promise<Optional<Type>> {
+        const instance: Instance = await this.createInstance(key, binding, resolutionPath);
+        this.trackTransientInstance(key, binding, instance);
+        return Optional.ofNullable<Type>(instance as Type);
+    }
+
+    private async resolveLocalService<Type>(
+        key: string,
+        binding: ServiceBinding,
+        resolutionPath: string[],
+    ): Promise<Optional<Type>> {
+        if (this._instances.has(binding)) {
+            return Optional.ofNullable<Type>(this._instances.get(binding) as Type);
+        }
+
+        const pendingInstance: PendingInstance | undefined = this._pendingInstances.get(binding);
+
+        if (pendingInstance) {
+            const instance: Instance = await this.waitForPendingInstance(
+                pendingInstance,
+                resolutionPath,
+            );
+            return Optional.ofNullable<Type>(instance as Type);
+        }
+
+        const instance: Type = await this.addInstance<Type>(key, binding, resolutionPath);
         return Optional.ofNullable<Type>(instance);
     }
 
-    private async resolveRootService<Type>(key: string): Promise<Optional<Type>> {
-        return await this._rootServiceProvider.getService<Type>(key);
+    private async resolveRootService<Type>(
+        key: string,
+        binding: ServiceBinding,
+        resolutionPath: string[],
+    ): Promise<Optional<Type>> {
+        if (this._rootServiceProvider instanceof DIServiceProvider) {
+            return await this._rootServiceProvider.resolveBinding<Type>(
+                key,
+                binding,
+                resolutionPath,
+            );
+        }
+
+        return Optional.empty<Type>();
     }
 
-    private async addInstance<Type>(key: string, binding: ServiceBinding): Promise<Type> {
-        const instance: Instance = await this.createInstance(binding);
-        this.saveInstance(key, instance);
-        return instance as Type;
+    private async addInstance<Type>(
+        key: string,
+        binding: ServiceBinding,
+        resolutionPath: string[],
+    ): Promise<Type> {
+        const pendingInstance: PendingInstance = {
+            key,
+            resolutionPath: [...resolutionPath, key],
+            instance: this.createOwnedInstance(key, binding, resolutionPath),
+        };
+        this._pendingInstances.set(binding, pendingInstance);
+
+        try {
+            return (await pendingInstance.instance) as Type;
+        } finally {
+            this._pendingInstances.delete(binding);
+        }
     }
 
-    private async createInstance(binding: ServiceBinding): Promise<Instance> {
-        const instance: Instance = await binding.serviceFactory(this);
+    private async createOwnedInstance(
+        key: string,
+        binding: ServiceBinding,
+        resolutionPath: string[],
+    ): Promise<Instance> {
+        const instance: Instance = await this.createInstance(key, binding, resolutionPath);
+
+        if (this._isDisposed) {
+            await this.disposeService(binding, instance);
+            throw new IllegalStateException(
+                `Service '${key}' was created after the service provider was disposed`,
+            );
+        }
+
+        this.saveInstance(key, binding, instance);
         return instance;
     }
 
-    private saveInstance(key: string, instance: Instance): void {
-        this._instances.set(key, instance);
+    private async waitForPendingInstance(
+        pendingInstance: PendingInstance,
+        resolutionPath: string[],
+    ): Promise<Instance> {
+        const pendingWaits: Set<PendingWait> = this.findTopServiceProvider()._pendingWaits;
+        this.ensureNoPendingCircularDependency(pendingInstance, resolutionPath, pendingWaits);
+
+        const pendingWait: PendingWait = { resolutionPath, pendingInstance };
+        pendingWaits.add(pendingWait);
+
+        try {
+            return await pendingInstance.instance;
+        } finally {
+            pendingWaits.delete(pendingWait);
+        }
+    }
+
+    private findTopServiceProvider(): DIServiceProvider {
+        if (this._rootServiceProvider instanceof DIServiceProvider) {
+            return this._rootServiceProvider.findTopServiceProvider();
+        }
+
+        if (this._parentServiceProvider instanceof DIServiceProvider) {
+            return this._parentServiceProvider.findTopServiceProvider();
+        }
+
+        return this;
+    }
+
+    private async createInstance(
+        key: string,
+        binding: ServiceBinding,
+        resolutionPath: string[],
+    ): Promise<Instance> {
+        const resolvingServiceProvider: ResolvingServiceProvider = new ResolvingServiceProvider(
+            this,
+            [...resolutionPath, key],
+            {
+                resolveService: <Type>(dependencyKey: string, dependencyPath: string[]) =>
+                    this.resolveService<Type>(dependencyKey, dependencyPath),
+                resolveRequiredService: <Type>(dependencyKey: string, dependencyPath: string[]) =>
+                    this.resolveRequiredService<Type>(dependencyKey, dependencyPath),
+                resolveServices: <Type>(dependencyKey: string, dependencyPath: string[]) =>
+                    this.resolveServices<Type>(dependencyKey, dependencyPath),
+                resolveKeyedService: <Type>(
+                    dependencyKey: string,
+                    name: string,
+                    dependencyPath: string[],
+                ) => this.resolveKeyedService<Type>(dependencyKey, name, dependencyPath),
+            },
+        );
+
+        const startTime: number = performance.now();
+
+        try {
+            const instance: Instance = await binding.serviceFactory(resolvingServiceProvider);
+            this.notifyObservers('onCreated', {
+                ...this.createServiceEvent(key, binding, resolutionPath),
+                duration: performance.now() - startTime,
+            });
+            return instance;
+        } finally {
+            resolvingServiceProvider.complete();
+        }
+    }
+
+    private saveInstance(key: string, binding: ServiceBinding, instance: Instance): void {
+        this._instances.set(binding, instance);
+        this._disposableInstances.push({ key, binding, instance });
+    }
+
+    private trackTransientInstance(key: string, binding: ServiceBinding, instance: Instance): void {
+        const hasServiceDisposer: boolean = binding.serviceDisposer !== undefined &&
+            binding.serviceDisposer !== defaultServiceDisposer;
+
+        if (hasServiceDisposer || this.isDisposable(instance)) {
+            this._disposableInstances.push({ key, binding, instance });
+        }
+    }
+
+    private createServiceEvent(
+        key: string,
+        binding: ServiceBinding,
+        resolutionPath: string[],
+    ): ServiceEvent {
+        const event: ServiceEvent = {
+            key,
+            lifetime: binding.serviceLifetime,
+            scopeId: this._scopeId,
+        };
+        const parentKey: string | undefined = resolutionPath.at(-1);
+
+        if (parentKey !== undefined) {
+            event.parentKey = parentKey;
+        }
+
+        return event;
+    }
+
+    private notifyObservers(hook: keyof ServiceProviderObserver, event: ServiceEvent): void {
+        for (const observer of this._observers) {
+            try {
+                observer[hook]?.(event);
+            } catch {
+                // An observer only watches, its failure must not fail resolution or disposal
+            }
+        }
+    }
+
+    private isDisposable(instance: Instance): boolean {
+        const disposable = instance as Partial<AsyncDisposable & Disposable> | undefined;
+
+        return typeof disposable?.[Symbol.asyncDispose] === 'function' ||
+            typeof disposable?.[Symbol.dispose] === 'function';
     }
 
     private ensureServiceProviderIsNotDisposed(): void {
@@ -218,14 +1110,228 @@ export class DIServiceProvider implements ServiceProvider {
         }
     }
 
+    private ensureNoCircularDependency(key: string, resolutionPath: string[]): void {
+        if (resolutionPath.includes(key)) {
+            throw new CircularDependencyException([...resolutionPath, key]);
+        }
+    }
+
+    private ensureNoPendingCircularDependency(
+        pendingInstance: PendingInstance,
+        resolutionPath: string[],
+        pendingWaits: Set<PendingWait>,
+    ): void {
+        const waitingChains: WaitingChain[] = [{ pendingInstance, path: [pendingInstance.key] }];
+        const visitedInstances: Set<PendingInstance> = new Set<PendingInstance>();
+
+        for (const { pendingInstance: waitingInstance, path } of waitingChains) {
+            if (visitedInstances.has(waitingInstance)) {
+                continue;
+            }
+
+            visitedInstances.add(waitingInstance);
+
+            for (const pendingWait of pendingWaits) {
+                if (!this.isWithinResolution(pendingWait.resolutionPath, waitingInstance)) {
+                    continue;
+                }
+
+                const waitingPath: string[] = [
+                    ...path,
+                    ...pendingWait.resolutionPath.slice(waitingInstance.resolutionPath.length),
+                    pendingWait.pendingInstance.key,
+                ];
+
+                if (resolutionPath.includes(pendingWait.pendingInstance.key)) {
+                    throw new CircularDependencyException([...resolutionPath, ...waitingPath]);
+                }
+
+                waitingChains.push({
+                    pendingInstance: pendingWait.pendingInstance,
+                    path: waitingPath,
+                });
+            }
+        }
+    }
+
+    private isWithinResolution(
+        resolutionPath: string[],
+        pendingInstance: PendingInstance,
+    ): boolean {
+        return pendingInstance.resolutionPath.every((key: string, index: number) =>
+            resolutionPath[index] === key
+        );
+    }
+
     private async disposeService(
         serviceBinding: ServiceBinding,
         instance: Instance,
     ): Promise<void> {
-        try {
-            await serviceBinding.serviceDisposer!(instance, this);
-        } catch (error) {
-            throw new IllegalStateException(`Failed to dispose service: ${error}`);
+        await serviceBinding.serviceDisposer!(instance, this);
+    }
+}
+
+/**
+ * An instance created by a service provider that is disposed together with the provider.
+ */
+interface DisposableInstance {
+    key: string;
+    binding: ServiceBinding;
+    instance: Instance;
+}
+
+/**
+ * An instance that is being created, with the resolution path leading to it, so callers waiting
+ * for it can detect circular dependencies across concurrent resolutions.
+ */
+interface PendingInstance {
+    key: string;
+    resolutionPath: string[];
+    instance: Promise<Instance>;
+}
+
+/**
+ * A resolution waiting for an instance that another resolution is creating.
+ */
+interface PendingWait {
+    resolutionPath: string[];
+    pendingInstance: PendingInstance;
+}
+
+/**
+ * A pending instance reached while looking for circular dependencies, with the keys leading to it.
+ */
+interface WaitingChain {
+    pendingInstance: PendingInstance;
+    path: string[];
+}
+
+/**
+ * The bindings found for a key in the first layer of a child provider chain that registers it,
+ * together with the provider of that layer.
+ */
+interface LayeredBindings {
+    bindings: ServiceBinding[];
+    serviceProvider: DIServiceProvider;
+}
+
+/**
+ * Resolves services on behalf of a ResolvingServiceProvider, tracking the resolution path.
+ */
+interface ServiceResolver {
+    resolveService<Type>(key: string, resolutionPath: string[]): Promise<Optional<Type>>;
+    resolveRequiredService<Type>(key: string, resolutionPath: string[]): Promise<Type>;
+    resolveServices<Type>(key: string, resolutionPath: string[]): Promise<Type[]>;
+    resolveKeyedService<Type>(
+        key: string,
+        name: string,
+        resolutionPath: string[],
+    ): Promise<Optional<Type>>;
+}
+
+/**
+ * The service provider handed to a service factory. Services resolved through it while the
+ * factory runs are tracked as dependencies of the service being created, so circular
+ * dependencies can be detected. Once the factory completes it behaves like the provider it wraps.
+ */
+class ResolvingServiceProvider implements ServiceProvider {
+    private readonly _serviceProvider: ServiceProvider;
+    private readonly _resolutionPath: string[];
+    private readonly _serviceResolver: ServiceResolver;
+    private _isResolving: boolean = true;
+
+    constructor(
+        serviceProvider: ServiceProvider,
+        resolutionPath: string[],
+        serviceResolver: ServiceResolver,
+    ) {
+        this._serviceProvider = serviceProvider;
+        this._resolutionPath = resolutionPath;
+        this._serviceResolver = serviceResolver;
+    }
+
+    createScope(options?: ScopeOptions): ServiceProvider {
+        return this._serviceProvider.createScope(options);
+    }
+
+    provide<Type>(serviceKey: ServiceKey<Type>, value: Type): ServiceProvider {
+        this._serviceProvider.provide<Type>(serviceKey, value);
+        return this;
+    }
+
+    createChild(configure: (serviceCollection: ServiceCollection) => void): ServiceProvider {
+        return this._serviceProvider.createChild(configure);
+    }
+
+    async getService<Type>(serviceKey: ServiceKey<Type>): Promise<Optional<Type>> {
+        if (!this._isResolving) {
+            return await this._serviceProvider.getService<Type>(serviceKey);
+        }
+
+        return await this._serviceResolver.resolveService<Type>(
+            ServiceToken.keyOf(serviceKey),
+            this._resolutionPath,
+        );
+    }
+
+    async getRequiredService<Type>(serviceKey: ServiceKey<Type>): Promise<Type> {
+        if (!this._isResolving) {
+            return await this._serviceProvider.getRequiredService<Type>(serviceKey);
         }
+
+        return await this._serviceResolver.resolveRequiredService<Type>(
+            ServiceToken.keyOf(serviceKey),
+            this._resolutionPath,
+        );
+    }
+
+    async getServices<Type>(serviceKey: ServiceKey<Type>): Promise<Type[]> {
+        if (!this._isResolving) {
+            return await this._serviceProvider.getServices<Type>(serviceKey);
+        }
+
+        return await this._serviceResolver.resolveServices<Type>(
+            ServiceToken.keyOf(serviceKey),
+            this._resolutionPath,
+        );
+    }
+
+    async getKeyedService<Type>(
+        serviceKey: ServiceKey<Type>,
+        name: string,
+    ): Promise<Optional<Type>> {
+        if (!this._isResolving) {
+            return await this._serviceProvider.getKeyedService<Type>(serviceKey, name);
+        }
+
+        return await this._serviceResolver.resolveKeyedService<Type>(
+            ServiceToken.keyOf(serviceKey),
+            name,
+            this._resolutionPath,
+        );
+    }
+
+    getLazy<Type>(serviceKey: ServiceKey<Type>): Lazy<Type> {
+        return this._serviceProvider.getLazy<Type>(serviceKey);
+    }
+
+    getDependencyGraph(): DependencyGraph {
+        return this._serviceProvider.getDependencyGraph();
+    }
+
+    async initialize(options?: InitializeOptions): Promise<void> {
+        await this._serviceProvider.initialize(options);
+    }
+
+    async dispose(): Promise<void> {
+        await this._serviceProvider.dispose();
+    }
+
+    async [Symbol.asyncDispose](): Promise<void> {
+        await this._serviceProvider[Symbol.asyncDispose]();
+    }
+
+    complete(): void {
+        this._isResolving = false;
     }
 }
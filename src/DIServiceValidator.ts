@@ -0,0 +1,367 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import {
+    CircularDependencyException,
+    type DependencyGraph,
+    DIServiceCollection,
+    DIServiceProvider,
+    type InitializeOptions,
+    type Lazy,
+    type ScopeOptions,
+    type ServiceBinding,
+    type ServiceCollection,
+    type ServiceFactory,
+    type ServiceKey,
+    ServiceLifetime,
+    type ServiceProvider,
+    ServiceToken,
+    type ServiceValidationProblem,
+    ServiceValidationProblemType,
+} from '@domaincrafters/di/mod.ts';
+import type { Optional } from '@domaincrafters/std';
+
+/**
+ * Validates a service collection by resolving every binding once, collecting every problem
+ * instead of failing on the first one.
+ *
+ * Every registration is resolved from a scope, singletons are created by its root provider.
+ * All created instances are disposed when validation completes.
+ *
+ * @example Usage
+ * ```typescript
+ * const problems = await DIServiceValidator.create(serviceCollection).validate();
+ * for (const problem of problems) {
+ *   console.error(problem.message);
+ * }
+ * ```
+ */
+export class DIServiceValidator {
+    private readonly _serviceCollection: ServiceCollection;
+    private readonly _problems: ServiceValidationProblem[] = [];
+
+    /**
+     * Creates a new validator for the given service collection.
+     *
+     * @param {ServiceCollection} serviceCollection - The service collection to validate.
+     * @returns {DIServiceValidator} A new instance of DIServiceValidator.
+     *
+     * @example Usage
+     * ```typescript
+     * const validator = DIServiceValidator.create(serviceCollection);
+     * ```
+     */
+    static create(serviceCollection: ServiceCollection): DIServiceValidator {
+        return new DIServiceValidator(serviceCollection);
+    }
+
+    /**
+     * Resolves every registered service and reports missing, circular and captive dependencies
+     * and failing factories. Values the application provides to its scopes, such as the current
+     * user, are provided to the validation scope as the given sample values, so services
+     * depending on them are not reported as missing dependencies.
+     *
+     * @param {Record<string, unknown>} [scopeValues] - Sample values provided to the validation scope by key.
+     * @returns {Promise<ServiceValidationProblem[]>} The problems found, empty when the collection is valid.
+     *
+     * @example Usage
+     * ```typescript
+     * const problems = await validator.validate({ currentUser: { id: 'validation' } });
+     * if (problems.length > 0) {
+     *   // Report the problems
+     * }
+     * ```
+     */
+    async validate(scopeValues?: Record<string, unknown>): Promise<ServiceValidationProblem[]> {
+        this._problems.length = 0;
+
+        const rootProvider: ServiceProvider = DIServiceProvider.create(
+            this.createValidationCollection(),
+        );
+        const scopeProvider: ServiceProvider = rootProvider.createScope({ values: scopeValues });
+
+        try {
+            for (const key of this.keys()) {
+                await this.validateServices(key, () => scopeProvider.getServices(key));
+            }
+
+            for (const [key, bindings] of this._serviceCollection.keyed) {
+                for (const name of bindings.keys()) {
+                    await this.validateServices(
+                        `${key}[${name}]`,
+                        () => scopeProvider.getKeyedService(key, name),
+                    );
+                }
+            }
+        } finally {
+            await scopeProvider.dispose();
+            await rootProvider.dispose();
+        }
+
+        return [...this._problems];
+    }
+
+    private async validateServices(
+        key: string,
+        resolveServices: () => Promise<unknown>,
+    ): Promise<void> {
+        const problemCount: number = this._problems.length;
+
+        try {
+            await resolveServices();
+        } catch (error) {
+            if (error instanceof CircularDependencyException) {
+                this.addProblem({
+                    type: ServiceValidationProblemType.CircularDependency,
+                    key,
+                    message: error.message,
+                    resolutionPath: error.resolutionPath,
+                    error,
+                });
+            } else if (this._problems.length === problemCount) {
+                this.addProblem({
+                    type: ServiceValidationProblemType.FactoryFailure,
+                    key,
+                    message: `Service '${key}' could not be created: ${error}`,
+                    error,
+                });
+            }
+        }
+    }
+
+    private createValidationCollection(): ServiceCollection {
+        const validationCollection: ServiceCollection = DIServiceCollection.create();
+
+        for (const key of this.keys()) {
+            for (const binding of this._serviceCollection.findAll(key)) {
+                this.addValidationBinding(validationCollection, key, binding);
+            }
+        }
+
+        for (const [key, bindings] of this._serviceCollection.keyed) {
+            for (const [name, binding] of bindings) {
+                this.addKeyedValidationBinding(validationCollection, key, name, binding);
+            }
+        }
+
+        return validationCollection;
+    }
+
+    private keys(): Set<string> {
+        return new Set<string>([
+            ...this._serviceCollection.singleton.keys(),
+            ...this._serviceCollection.scoped.keys(),
+            ...this._serviceCollection.transient.keys(),
+        ]);
+    }
+
+    private addValidationBinding(
+        validationCollection: ServiceCollection,
+        key: string,
+        binding: ServiceBinding,
+    ): void {
+        const serviceFactory: ServiceFactory = this.createValidationFactory(key, binding);
+
+        switch (binding.serviceLifetime) {
+            case ServiceLifetime.Singleton:
+                validationCollection.addSingleton(key, serviceFactory, binding.serviceDisposer);
+                break;
+            case ServiceLifetime.Scoped:
+                validationCollection.addScoped(key, serviceFactory, binding.serviceDisposer);
+                break;
+            case ServiceLifetime.Transient:
+                validationCollection.addTransient(key, serviceFactory, binding.serviceDisposer);
+                break;
+        }
+    }
+
+    private addKeyedValidationBinding(
+        validationCollection: ServiceCollection,
+        key: string,
+        name: string,
+        binding: ServiceBinding,
+    ): void {
+        const serviceFactory: ServiceFactory = this.createValidationFactory(
+            `${key}[${name}]`,
+            binding,
+        );
+
+        switch (binding.serviceLifetime) {
+            case ServiceLifetime.Singleton:
+                validationCollection.addKeyedSingleton(
+                    key,
+                    name,
+                    serviceFactory,
+                    binding.serviceDisposer,
+                );
+                break;
+            case ServiceLifetime.Scoped:
+                validationCollection.addKeyedScoped(
+                    key,
+                    name,
+                    serviceFactory,
+                    binding.serviceDisposer,
+                );
+                break;
+            case ServiceLifetime.Transient:
+                validationCollection.addKeyedTransient(
+                    key,
+                    name,
+                    serviceFactory,
+                    binding.serviceDisposer,
+                );
+                break;
+        }
+    }
+
+    private createValidationFactory(key: string, binding: ServiceBinding): ServiceFactory {
+        return async (serviceProvider: ServiceProvider) =>
+            await binding.serviceFactory(
+                new ValidatingServiceProvider(
+                    serviceProvider,
+                    (dependencyKey: string) => this.reportUnresolvedDependency(key, dependencyKey),
+                ),
+            );
+    }
+
+    private reportUnresolvedDependency(key: string, dependencyKey: string): void {
+        const dependencyBinding: Optional<ServiceBinding> = this._serviceCollection.find(
+            dependencyKey,
+        );
+
+        if (
+            dependencyBinding.isPresent &&
+            dependencyBinding.value.serviceLifetime === ServiceLifetime.Scoped
+        ) {
+            this.addProblem({
+                type: ServiceValidationProblemType.CaptiveDependency,
+                key,
+                dependencyKey,
+                message:
+                    `Service '${key}' depends on scoped service '${dependencyKey}' outside of a scope, ` +
+                    'it is resolved from a singleton',
+            });
+            return;
+        }
+
+        this.addProblem({
+            type: ServiceValidationProblemType.MissingDependency,
+            key,
+            dependencyKey,
+            message: `Service '${key}' depends on '${dependencyKey}', which is not registered`,
+        });
+    }
+
+    private addProblem(problem: ServiceValidationProblem): void {
+        const isDuplicate: boolean = this._problems.some((existingProblem) =>
+            existingProblem.type === problem.type &&
+            existingProblem.key === problem.key &&
+            existingProblem.dependencyKey === problem.dependencyKey &&
+            existingProblem.message === problem.message
+        );
+
+        if (!isDuplicate) {
+            this._problems.push(problem);
+        }
+    }
+
+    private constructor(serviceCollection: ServiceCollection) {
+        this._serviceCollection = serviceCollection;
+    }
+}
+
+/**
+ * The service provider handed to a service factory during validation. Reports every
+ * dependency the factory requests that cannot be resolved.
+ */
+class ValidatingServiceProvider implements ServiceProvider {
+    private readonly _serviceProvider: ServiceProvider;
+    private readonly _reportUnresolvedDependency: (dependencyKey: string) => void;
+
+    constructor(
+        serviceProvider: ServiceProvider,
+        reportUnresolvedDependency: (dependencyKey: string) => void,
+    ) {
+        this._serviceProvider = serviceProvider;
+        this._reportUnresolvedDependency = reportUnresolvedDependency;
+    }
+
+    createScope(options?: ScopeOptions): ServiceProvider {
+        return this._serviceProvider.createScope(options);
+    }
+
+    provide<Type>(serviceKey: ServiceKey<Type>, value: Type): ServiceProvider {
+        this._serviceProvider.provide<Type>(serviceKey, value);
+        return this;
+    }
+
+    createChild(configure: (serviceCollection: ServiceCollection) => void): ServiceProvider {
+        return this._serviceProvider.createChild(configure);
+    }
+
+    async getService<Type>(serviceKey: ServiceKey<Type>): Promise<Optional<Type>> {
+        const serviceOptional: Optional<Type> = await this._serviceProvider.getService<Type>(
+            serviceKey,
+        );
+
+        if (!serviceOptional.isPresent) {
+            this._reportUnresolvedDependency(ServiceToken.keyOf(serviceKey));
+        }
+
+        return serviceOptional;
+    }
+
+    async getRequiredService<Type>(serviceKey: ServiceKey<Type>): Promise<Type> {
+        const serviceOptional: Optional<Type> = await this.getService<Type>(serviceKey);
+
+        if (!serviceOptional.isPresent) {
+            return await this._serviceProvider.getRequiredService<Type>(serviceKey);
+        }
+
+        return serviceOptional.value;
+    }
+
+    async getServices<Type>(serviceKey: ServiceKey<Type>): Promise<Type[]> {
+        return await this._serviceProvider.getServices<Type>(serviceKey);
+    }
+
+    async getKeyedService<Type>(
+        serviceKey: ServiceKey<Type>,
+        name: string,
+    ): Promise<Optional<Type>> {
+        const serviceOptional: Optional<Type> = await this._serviceProvider.getKeyedService<Type>(
+            serviceKey,
+            name,
+        );
+
+        if (!serviceOptional.isPresent) {
+            this._reportUnresolvedDependency(ServiceToken.keyOf(serviceKey));
+        }
+
+        return serviceOptional;
+    }
+
+    getLazy<Type>(serviceKey: ServiceKey<Type>): Lazy<Type> {
+        return this._serviceProvider.getLazy<Type>(serviceKey);
+    }
+
+    getDependencyGraph(): DependencyGraph {
+        return this._serviceProvider.getDependencyGraph();
+    }
+
+    async initialize(options?: InitializeOptions): Promise<void> {
+        await this._serviceProvider.initialize(options);
+    }
+
+    async dispose(): Promise<void> {
+        await this._serviceProvider.dispose();
+    }
+
+    async [Symbol.asyncDispose](): Promise<void> {
+        await this._serviceProvider[Symbol.asyncDispose]();
+    }
+}
@@ -0,0 +1,224 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { ServiceLifetime } from '@domaincrafters/di/mod.ts';
+
+/**
+ * Represents a service in a dependency graph. The lifetime is missing when the service is not
+ * registered, for example a missing dependency or a value provided to a scope.
+ *
+ * @example Usage
+ * ```typescript
+ * const node: DependencyGraphNode = { key: 'orderService', lifetime: ServiceLifetime.Scoped };
+ * ```
+ */
+export interface DependencyGraphNode {
+    key: string;
+    lifetime?: ServiceLifetime;
+}
+
+/**
+ * Represents a dependency of one service on another in a dependency graph. A lifetime violation
+ * is a singleton depending on a scoped service, which would capture the scoped instance.
+ *
+ * @example Usage
+ * ```typescript
+ * const edge: DependencyGraphEdge = {
+ *   from: 'orderService',
+ *   to: 'paymentService',
+ *   lifetimeViolation: false,
+ * };
+ * ```
+ */
+export interface DependencyGraphEdge {
+    from: string;
+    to: string;
+    lifetimeViolation: boolean;
+}
+
+/**
+ * Represents the services of a service provider and the dependencies between them, exportable
+ * as JSON, Graphviz DOT and Mermaid.
+ *
+ * @example Usage
+ * ```typescript
+ * const dependencyGraph = serviceProvider.getDependencyGraph();
+ *
+ * await Deno.writeTextFile('dependencies.dot', dependencyGraph.toDot());
+ * ```
+ */
+export class DependencyGraph {
+    private readonly _nodes: DependencyGraphNode[];
+    private readonly _edges: DependencyGraphEdge[];
+
+    /**
+     * Creates a new dependency graph. Duplicate dependencies are ignored, services that only
+     * appear in a dependency are added as nodes without a lifetime.
+     *
+     * @param {DependencyGraphNode[]} nodes - The services in the graph.
+     * @param {Pick<DependencyGraphEdge, 'from' | 'to'>[]} dependencies - The dependencies between the services.
+     * @returns {DependencyGraph} A new dependency graph.
+     *
+     * @example Usage
+     * ```typescript
+     * const dependencyGraph = DependencyGraph.create(
+     *   [
+     *     { key: 'orderService', lifetime: ServiceLifetime.Scoped },
+     *     { key: 'paymentService', lifetime: ServiceLifetime.Singleton },
+     *   ],
+     *   [{ from: 'orderService', to: 'paymentService' }],
+     * );
+     * ```
+     */
+    static create(
+        nodes: DependencyGraphNode[],
+        dependencies: Pick<DependencyGraphEdge, 'from' | 'to'>[],
+    ): DependencyGraph {
+        const nodesByKey: Map<string, DependencyGraphNode> = new Map<string, DependencyGraphNode>();
+
+        for (const node of nodes) {
+            if (!nodesByKey.has(node.key)) {
+                nodesByKey.set(node.key, { ...node });
+            }
+        }
+
+        const edgesByKey: Map<string, DependencyGraphEdge> = new Map<string, DependencyGraphEdge>();
+
+        for (const { from, to } of dependencies) {
+            for (const key of [from, to]) {
+                if (!nodesByKey.has(key)) {
+                    nodesByKey.set(key, { key });
+                }
+            }
+
+            edgesByKey.set(JSON.stringify([from, to]), {
+                from,
+                to,
+                lifetimeViolation: nodesByKey.get(from)?.lifetime === ServiceLifetime.Singleton &&
+                    nodesByKey.get(to)?.lifetime === ServiceLifetime.Scoped,
+            });
+        }
+
+        return new DependencyGraph([...nodesByKey.values()], [...edgesByKey.values()]);
+    }
+
+    /**
+     * Gets the services in the graph.
+     *
+     * @returns {DependencyGraphNode[]} The services.
+     */
+    get nodes(): DependencyGraphNode[] {
+        return this._nodes;
+    }
+
+    /**
+     * Gets the dependencies between the services in the graph.
+     *
+     * @returns {DependencyGraphEdge[]} The dependencies.
+     */
+    get edges(): DependencyGraphEdge[] {
+        return this._edges;
+    }
+
+    /**
+     * Returns the graph as a plain object, so `JSON.stringify` exports its nodes and edges.
+     *
+     * @returns {{ nodes: DependencyGraphNode[]; edges: DependencyGraphEdge[] }} The nodes and edges.
+     *
+     * @example Usage
+     * ```typescript
+     * const json = JSON.stringify(serviceProvider.getDependencyGraph(), null, 2);
+     * ```
+     */
+    toJSON(): { nodes: DependencyGraphNode[]; edges: DependencyGraphEdge[] } {
+        return { nodes: this._nodes, edges: this._edges };
+    }
+
+    /**
+     * Exports the graph in the Graphviz DOT language. Each service is labelled with its lifetime,
+     * unregistered services are dashed and lifetime violations are drawn in red.
+     *
+     * @returns {string} The graph in DOT.
+     *
+     * @example Usage
+     * ```typescript
+     * await Deno.writeTextFile('dependencies.dot', serviceProvider.getDependencyGraph().toDot());
+     * // dot -Tsvg dependencies.dot -o dependencies.svg
+     * ```
+     */
+    toDot(): string {
+        const lines: string[] = ['digraph dependencies {'];
+
+        for (const node of this._nodes) {
+            const label: string = this.labelOf(this.escapeDot(node.key), node.lifetime, '\\n');
+            const style: string = node.lifetime ? '' : ', style=dashed';
+            lines.push(`    "${this.escapeDot(node.key)}" [label="${label}"${style}];`);
+        }
+
+        for (const edge of this._edges) {
+            const style: string = edge.lifetimeViolation
+                ? ' [color=red, label="lifetime violation"]'
+                : '';
+            lines.push(
+                `    "${this.escapeDot(edge.from)}" -> "${this.escapeDot(edge.to)}"${style};`,
+            );
+        }
+
+        lines.push('}');
+        return lines.join('\n');
+    }
+
+    /**
+     * Exports the graph as a Mermaid flowchart. Each service is labelled with its lifetime and
+     * lifetime violations are drawn in red.
+     *
+     * @returns {string} The graph in Mermaid.
+     *
+     * @example Usage
+     * ```typescript
+     * const markdown = '```mermaid\n' + serviceProvider.getDependencyGraph().toMermaid() + '\n```';
+     * ```
+     */
+    toMermaid(): string {
+        const lines: string[] = ['graph LR'];
+        const ids: Map<string, string> = new Map<string, string>();
+
+        this._nodes.forEach((node: DependencyGraphNode, index: number) => {
+            const label: string = this.labelOf(this.escapeMermaid(node.key), node.lifetime, ' ');
+            ids.set(node.key, `n${index}`);
+            lines.push(`    n${index}["${label}"]`);
+        });
+
+        this._edges.forEach((edge: DependencyGraphEdge, index: number) => {
+            const arrow: string = edge.lifetimeViolation ? '-->|lifetime violation|' : '-->';
+            lines.push(`    ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+
+            if (edge.lifetimeViolation) {
+                lines.push(`    linkStyle ${index} stroke:#d00`);
+            }
+        });
+
+        return lines.join('\n');
+    }
+
+    private labelOf(key: string, lifetime: ServiceLifetime | undefined, separator: string): string {
+        return lifetime ? `${key}${separator}(${lifetime})` : key;
+    }
+
+    private escapeDot(value: string): string {
+        return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    }
+
+    private escapeMermaid(value: string): string {
+        return value.replace(/"/g, '#quot;');
+    }
+
+    private constructor(nodes: DependencyGraphNode[], edges: DependencyGraphEdge[]) {
+        this._nodes = nodes;
+        this._edges = edges;
+    }
+}
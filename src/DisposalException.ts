@@ -0,0 +1,69 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { IllegalStateException } from '@domaincrafters/std';
+
+/**
+ * Represents a service that could not be disposed, together with the cause.
+ */
+export interface DisposalFailure {
+    key: string;
+    error: unknown;
+}
+
+/**
+ * Thrown when one or more services fail to dispose. All services are disposed before
+ * this exception is thrown, it lists every failure.
+ *
+ * @example Usage
+ * ```typescript
+ * try {
+ *   await serviceProvider.dispose();
+ * } catch (error) {
+ *   if (error instanceof DisposalException) {
+ *     for (const failure of error.failures) {
+ *       console.error(failure.key, failure.error);
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export class DisposalException extends IllegalStateException {
+    private readonly _failures: DisposalFailure[];
+
+    /**
+     * Creates a new DisposalException for the given failures.
+     *
+     * @param {DisposalFailure[]} failures - The services that failed to dispose and their causes.
+     */
+    constructor(failures: DisposalFailure[]) {
+        super(
+            `Failed to dispose ${failures.length} service(s): ` +
+                failures.map((failure) => `'${failure.key}' (${failure.error})`).join(', '),
+        );
+        this.name = 'DisposalException';
+        this._failures = failures;
+    }
+
+    /**
+     * Gets the services that failed to dispose and their causes.
+     *
+     * @returns {DisposalFailure[]} The disposal failures.
+     */
+    get failures(): DisposalFailure[] {
+        return [...this._failures];
+    }
+
+    /**
+     * Gets the causes of the disposal failures, like AggregateError.errors.
+     *
+     * @returns {unknown[]} The errors thrown by the service disposers.
+     */
+    get errors(): unknown[] {
+        return this._failures.map((failure) => failure.error);
+    }
+}
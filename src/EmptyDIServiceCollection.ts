@@ -5,11 +5,24 @@
  * https://opensource.org/licenses/MIT
  */
 
-import type {
-    ServiceBinding,
-    ServiceCollection,
-    ServiceDisposer,
-    ServiceFactory,
+import {
+    type Factory,
+    type HostedService,
+    type Instance,
+    type ParameterizedServiceFactory,
+    type ScopedServiceOptions,
+    type ServiceBinding,
+    type ServiceClass,
+    type ServiceCollection,
+    type ServiceDecorator,
+    type ServiceDependency,
+    type ServiceDisposer,
+    type ServiceFactory,
+    type ServiceKey,
+    type ServiceLifetime,
+    type ServiceModule,
+    ServiceToken,
+    type SingletonServiceOptions,
 } from '@domaincrafters/di/mod.ts';
 import { IllegalStateException, Optional } from '@domaincrafters/std';
 
@@ -53,10 +66,23 @@ export class EmptyDIServiceCollection implements ServiceCollection {
      * }
      * ```
      */
+    addScoped<Type>(
+        _name: ServiceToken<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+        _scopedServiceOptions?: ScopedServiceOptions,
+    ): ServiceCollection;
     addScoped<Type>(
         _name: string,
         _serviceFactory: ServiceFactory,
         _serviceDisposer?: ServiceDisposer<Type>,
+        _scopedServiceOptions?: ScopedServiceOptions,
+    ): ServiceCollection;
+    addScoped<Type>(
+        _name: ServiceKey<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+        _scopedServiceOptions?: ScopedServiceOptions,
     ): ServiceCollection {
         return this.addService();
     }
@@ -75,10 +101,23 @@ export class EmptyDIServiceCollection implements ServiceCollection {
      * }
      * ```
      */
+    addSingleton<Type>(
+        _name: ServiceToken<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+        _singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection;
     addSingleton<Type>(
         _name: string,
         _serviceFactory: ServiceFactory,
         _serviceDisposer?: ServiceDisposer<Type>,
+        _singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection;
+    addSingleton<Type>(
+        _name: ServiceKey<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+        _singletonServiceOptions?: SingletonServiceOptions<Type>,
     ): ServiceCollection {
         return this.addService();
     }
@@ -97,9 +136,504 @@ export class EmptyDIServiceCollection implements ServiceCollection {
      * }
      * ```
      */
-    addTransient(
+    addTransient<Type>(
+        _name: ServiceToken<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    addTransient<Type>(
         _name: string,
         _serviceFactory: ServiceFactory,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    addTransient<Type>(
+        _name: ServiceKey<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.addScopedClass('myService', MyService);
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    addScopedClass<Type>(
+        _name: ServiceKey<Type>,
+        _serviceClass: ServiceClass<Type>,
+        _dependencies?: ServiceDependency[],
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.addSingletonClass('myService', MyService);
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    addSingletonClass<Type>(
+        _name: ServiceKey<Type>,
+        _serviceClass: ServiceClass<Type>,
+        _dependencies?: ServiceDependency[],
+        _serviceDisposer?: ServiceDisposer<Type>,
+        _singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.addTransientClass('myService', MyService);
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    addTransientClass<Type>(
+        _name: ServiceKey<Type>,
+        _serviceClass: ServiceClass<Type>,
+        _dependencies?: ServiceDependency[],
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.addHostedService('outboxPublisher', outboxPublisherFactory);
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    addHostedService<Type extends HostedService>(
+        _name: ServiceKey<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.addInstance('config', config);
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    addInstance<Type>(
+        _name: ServiceKey<Type>,
+        _instance: Type,
+        _serviceDisposer?: ServiceDisposer<Type>,
+        _singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.addFactory('myFactory', async (provider, id: string) => new MyService(id));
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    addFactory<Type, Args extends unknown[] = []>(
+        _key: ServiceKey<Factory<Type, Args>>,
+        _serviceFactory: ParameterizedServiceFactory<Type, Args>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.tryAddScoped('myService', async (provider) => new MyService());
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    tryAddScoped<Type>(
+        _name: ServiceToken<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddScoped<Type>(
+        _name: string,
+        _serviceFactory: ServiceFactory,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddScoped<Type>(
+        _name: ServiceKey<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.tryAddSingleton('myService', async (provider) => new MyService());
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    tryAddSingleton<Type>(
+        _name: ServiceToken<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddSingleton<Type>(
+        _name: string,
+        _serviceFactory: ServiceFactory,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddSingleton<Type>(
+        _name: ServiceKey<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.tryAddTransient('myService', async (provider) => new MyService());
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    tryAddTransient<Type>(
+        _name: ServiceToken<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddTransient<Type>(
+        _name: string,
+        _serviceFactory: ServiceFactory,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddTransient<Type>(
+        _name: ServiceKey<Type>,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as the empty collection contains no service to replace.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.replace('myService', ServiceLifetime.Singleton, async (provider) => new MyService());
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    replace<Type>(
+        _name: ServiceToken<Type>,
+        _serviceLifetime: ServiceLifetime,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    replace<Type>(
+        _name: string,
+        _serviceLifetime: ServiceLifetime,
+        _serviceFactory: ServiceFactory,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    replace<Type>(
+        name: ServiceKey<Type>,
+        _serviceLifetime: ServiceLifetime,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        throw new IllegalStateException(
+            `Cannot replace service '${ServiceToken.keyOf(name)}', it is not registered`,
+        );
+    }
+
+    /**
+     * Throws an IllegalStateException, as the empty collection contains no service to decorate.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.decorate('myService', async (inner, provider) => new LoggingService(inner));
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    decorate<Type>(
+        _key: ServiceToken<Type>,
+        _serviceDecorator: ServiceDecorator<Type>,
+        _decoratorDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    decorate(
+        _key: string,
+        _serviceDecorator: ServiceDecorator,
+        _decoratorDisposer?: ServiceDisposer<Instance>,
+    ): ServiceCollection;
+    decorate<Type>(
+        key: ServiceKey<Type>,
+        _serviceDecorator: ServiceDecorator<Type>,
+        _decoratorDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        throw new IllegalStateException(
+            `Cannot decorate service '${ServiceToken.keyOf(key)}', it is not registered`,
+        );
+    }
+
+    /**
+     * Throws an IllegalStateException, as modules cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.addModule(persistenceModule);
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    addModule(..._serviceModules: ServiceModule[]): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Always returns an empty array, as there are no services in the collection.
+     *
+     * @param {ServiceKey} _key - The key of the service (ignored).
+     * @returns {string[]} An empty array.
+     *
+     * @example Usage
+     * ```typescript
+     * const moduleNames = emptyCollection.findModules('myService');
+     * // moduleNames.length === 0
+     * ```
+     */
+    findModules(_key: ServiceKey): string[] {
+        return [];
+    }
+
+    /**
+     * Returns the empty collection itself, as it cannot be changed.
+     *
+     * @returns {ServiceCollection} The empty collection.
+     *
+     * @example Usage
+     * ```typescript
+     * const collection = emptyCollection.clone();
+     * // collection === emptyCollection
+     * ```
+     */
+    clone(): ServiceCollection {
+        return this;
+    }
+
+    /**
+     * Does nothing, as there are no services in the collection.
+     *
+     * @param {ServiceKey} _key - The key of the service (ignored).
+     * @returns {ServiceCollection} The empty collection.
+     *
+     * @example Usage
+     * ```typescript
+     * emptyCollection.remove('myService');
+     * ```
+     */
+    remove(_key: ServiceKey): ServiceCollection {
+        return this;
+    }
+
+    /**
+     * Does nothing, as there are no named variants in the collection.
+     *
+     * @param {ServiceKey} _key - The key of the service (ignored).
+     * @param {string} _name - The name of the variant (ignored).
+     * @returns {ServiceCollection} The empty collection.
+     *
+     * @example Usage
+     * ```typescript
+     * emptyCollection.removeKeyed('myService', 'name');
+     * ```
+     */
+    removeKeyed(_key: ServiceKey, _name: string): ServiceCollection {
+        return this;
+    }
+
+    /**
+     * Always returns false, as there are no services in the collection.
+     *
+     * @param {ServiceKey} _key - The key of the service (ignored).
+     * @returns {boolean} False.
+     *
+     * @example Usage
+     * ```typescript
+     * emptyCollection.has('myService'); // false
+     * ```
+     */
+    has(_key: ServiceKey): boolean {
+        return false;
+    }
+
+    /**
+     * Always returns false, as there are no named variants in the collection.
+     *
+     * @param {ServiceKey} _key - The key of the service (ignored).
+     * @param {string} _name - The name of the variant (ignored).
+     * @returns {boolean} False.
+     *
+     * @example Usage
+     * ```typescript
+     * emptyCollection.hasKeyed('myService', 'name'); // false
+     * ```
+     */
+    hasKeyed(_key: ServiceKey, _name: string): boolean {
+        return false;
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.addKeyedScoped('myService', 'name', async (provider) => new MyService());
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    addKeyedScoped<Type>(
+        _key: ServiceKey<Type>,
+        _name: string,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.addKeyedSingleton('myService', 'name', async (provider) => new MyService());
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    addKeyedSingleton<Type>(
+        _key: ServiceKey<Type>,
+        _name: string,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
+        _singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection {
+        return this.addService();
+    }
+
+    /**
+     * Throws an IllegalStateException, as services cannot be added to an empty collection.
+     *
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyCollection.addKeyedTransient('myService', 'name', async (provider) => new MyService());
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    addKeyedTransient<Type>(
+        _key: ServiceKey<Type>,
+        _name: string,
+        _serviceFactory: ServiceFactory<Type>,
+        _serviceDisposer?: ServiceDisposer<Type>,
     ): ServiceCollection {
         return this.addService();
     }
@@ -107,7 +641,7 @@ export class EmptyDIServiceCollection implements ServiceCollection {
     /**
      * Always returns an empty Optional, as there are no services in the collection.
      *
-     * @param {string} _key - The key of the service (ignored).
+     * @param {ServiceKey} _key - The key of the service (ignored).
      * @returns {Optional<ServiceBinding>} An empty Optional.
      *
      * @example Usage
@@ -116,10 +650,26 @@ export class EmptyDIServiceCollection implements ServiceCollection {
      * // bindingOptional.isPresent === false
      * ```
      */
-    find(_key: string): Optional<ServiceBinding> {
+    find(_key: ServiceKey): Optional<ServiceBinding> {
         return Optional.empty<ServiceBinding>();
     }
 
+    /**
+     * Always returns an empty array, as there are no services in the collection.
+     *
+     * @param {ServiceKey} _key - The key of the services (ignored).
+     * @returns {ServiceBinding[]} An empty array.
+     *
+     * @example Usage
+     * ```typescript
+     * const bindings = emptyCollection.findAll('myService');
+     * // bindings.length === 0
+     * ```
+     */
+    findAll(_key: ServiceKey): ServiceBinding[] {
+        return [];
+    }
+
     /**
      * Always returns an empty Map, as there are no services in the collection.
      *
@@ -165,6 +715,54 @@ export class EmptyDIServiceCollection implements ServiceCollection {
         return new Map<string, ServiceBinding>();
     }
 
+    /**
+     * Always returns an empty Optional, as there are no services in the collection.
+     *
+     * @param {ServiceKey} _key - The key of the service (ignored).
+     * @param {string} _name - The name of the variant (ignored).
+     * @returns {Optional<ServiceBinding>} An empty Optional.
+     *
+     * @example Usage
+     * ```typescript
+     * const bindingOptional = emptyCollection.findKeyed('myService', 'name');
+     * // bindingOptional.isPresent === false
+     * ```
+     */
+    findKeyed(_key: ServiceKey, _name: string): Optional<ServiceBinding> {
+        return Optional.empty<ServiceBinding>();
+    }
+
+    /**
+     * Always returns an empty Map, as there are no services in the collection.
+     *
+     * @param {ServiceKey} _key - The key of the service (ignored).
+     * @returns {Map<string, ServiceBinding>} An empty Map.
+     *
+     * @example Usage
+     * ```typescript
+     * const bindings = emptyCollection.findAllKeyed('myService');
+     * // bindings.size === 0
+     * ```
+     */
+    findAllKeyed(_key: ServiceKey): Map<string, ServiceBinding> {
+        return new Map<string, ServiceBinding>();
+    }
+
+    /**
+     * Always returns an empty Map, as there are no services in the collection.
+     *
+     * @returns {Map<string, Map<string, ServiceBinding>>} An empty Map.
+     *
+     * @example Usage
+     * ```typescript
+     * const keyedServices = emptyCollection.keyed;
+     * // keyedServices.size === 0
+     * ```
+     */
+    get keyed(): Map<string, Map<string, ServiceBinding>> {
+        return new Map<string, Map<string, ServiceBinding>>();
+    }
+
     private addService(): ServiceCollection {
         throw new IllegalStateException('Cannot add a service to an empty service collection');
     }
@@ -5,7 +5,17 @@
  * https://opensource.org/licenses/MIT
  */
 
-import type { ServiceProvider } from '@domaincrafters/di/mod.ts';
+import {
+    DependencyGraph,
+    type InitializeOptions,
+    Lazy,
+    type ScopeOptions,
+    type ServiceCollection,
+    type ServiceKey,
+    ServiceNotFoundException,
+    type ServiceProvider,
+    ServiceToken,
+} from '@domaincrafters/di/mod.ts';
 import { IllegalStateException, Optional } from '@domaincrafters/std';
 
 /**
@@ -23,7 +33,7 @@ export class EmptyDIServiceProvider implements ServiceProvider {
     /**
      * Always returns an empty Optional, as no services are available.
      *
-     * @param {string} _key - The key of the service (ignored).
+     * @param {ServiceKey<Type>} _key - The key of the service (ignored).
      * @returns {Promise<Optional<Type>>} An empty Optional.
      *
      * @example Usage
@@ -32,10 +42,108 @@ export class EmptyDIServiceProvider implements ServiceProvider {
      * // serviceOptional.isPresent === false
      * ```
      */
-    getService<Type>(_key: string): Promise<Optional<Type>> {
+    getService<Type>(_key: ServiceKey<Type>): Promise<Optional<Type>> {
         return Promise.resolve(Optional.empty<Type>());
     }
 
+    /**
+     * Always throws a ServiceNotFoundException, as no services are available.
+     *
+     * @param {ServiceKey<Type>} key - The key of the service.
+     * @throws {ServiceNotFoundException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   await emptyProvider.getRequiredService<MyService>('myService');
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    getRequiredService<Type>(key: ServiceKey<Type>): Promise<Type> {
+        return Promise.reject(new ServiceNotFoundException(ServiceToken.keyOf(key), []));
+    }
+
+    /**
+     * Always returns an empty array, as no services are available.
+     *
+     * @param {ServiceKey<Type>} _key - The key of the services (ignored).
+     * @returns {Promise<Type[]>} An empty array.
+     *
+     * @example Usage
+     * ```typescript
+     * const services = await emptyProvider.getServices<MyService>('myService');
+     * // services.length === 0
+     * ```
+     */
+    getServices<Type>(_key: ServiceKey<Type>): Promise<Type[]> {
+        return Promise.resolve([]);
+    }
+
+    /**
+     * Always returns an empty Optional, as no services are available.
+     *
+     * @param {ServiceKey<Type>} _key - The key of the service (ignored).
+     * @param {string} _name - The name of the variant (ignored).
+     * @returns {Promise<Optional<Type>>} An empty Optional.
+     *
+     * @example Usage
+     * ```typescript
+     * const serviceOptional = await emptyProvider.getKeyedService<MyService>('myService', 'name');
+     * // serviceOptional.isPresent === false
+     * ```
+     */
+    getKeyedService<Type>(_key: ServiceKey<Type>, _name: string): Promise<Optional<Type>> {
+        return Promise.resolve(Optional.empty<Type>());
+    }
+
+    /**
+     * Returns a lazy handle that always throws a ServiceNotFoundException, as no services are available.
+     *
+     * @param {ServiceKey<Type>} key - The key of the service.
+     * @returns {Lazy<Type>} A lazy handle that rejects on access.
+     *
+     * @example Usage
+     * ```typescript
+     * const lazyService = emptyProvider.getLazy<MyService>('myService');
+     * await lazyService.value(); // throws ServiceNotFoundException
+     * ```
+     */
+    getLazy<Type>(key: ServiceKey<Type>): Lazy<Type> {
+        return Lazy.create<Type>(() => this.getRequiredService<Type>(key));
+    }
+
+    /**
+     * Returns an empty dependency graph, as there are no services.
+     *
+     * @returns {DependencyGraph} An empty dependency graph.
+     *
+     * @example Usage
+     * ```typescript
+     * const dependencyGraph = emptyProvider.getDependencyGraph();
+     * // dependencyGraph.nodes is empty
+     * ```
+     */
+    getDependencyGraph(): DependencyGraph {
+        return DependencyGraph.create([], []);
+    }
+
+    /**
+     * Does nothing, as there are no singletons to create.
+     *
+     * @param {InitializeOptions} [_options] - Ignored.
+     * @returns {Promise<void>} A resolved promise.
+     *
+     * @example Usage
+     * ```typescript
+     * await emptyProvider.initialize();
+     * ```
+     */
+    initialize(_options?: InitializeOptions): Promise<void> {
+        return Promise.resolve();
+    }
+
     /**
      * Does nothing, as there are no resources to dispose.
      *
@@ -50,6 +158,15 @@ export class EmptyDIServiceProvider implements ServiceProvider {
         return Promise.resolve();
     }
 
+    /**
+     * Does nothing, as there are no resources to dispose.
+     *
+     * @returns {Promise<void>} A resolved promise.
+     */
+    public [Symbol.asyncDispose](): Promise<void> {
+        return Promise.resolve();
+    }
+
     /**
      * Throws an IllegalStateException, as scopes cannot be created from an empty service provider.
      *
@@ -64,10 +181,53 @@ export class EmptyDIServiceProvider implements ServiceProvider {
      * }
      * ```
      */
-    public createScope(): ServiceProvider {
+    public createScope(_options?: ScopeOptions): ServiceProvider {
         throw new IllegalStateException('Cannot create a scope from an empty service provider');
     }
 
+    /**
+     * Throws an IllegalStateException, as values can only be provided to a scope.
+     *
+     * @param {ServiceKey<Type>} key - The key of the value.
+     * @param {Type} _value - The value (ignored).
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   emptyProvider.provide('currentUser', user);
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    public provide<Type>(key: ServiceKey<Type>, _value: Type): ServiceProvider {
+        throw new IllegalStateException(
+            `Cannot provide '${ServiceToken.keyOf(key)}' to an empty service provider`,
+        );
+    }
+
+    /**
+     * Throws an IllegalStateException, as child providers cannot be created from an empty service provider.
+     *
+     * @param {(serviceCollection: ServiceCollection) => void} _configure - Registers the services of the child (ignored).
+     * @throws {IllegalStateException} Always thrown.
+     *
+     * @example Usage
+     * ```typescript
+     * try {
+     *   const child = emptyProvider.createChild((serviceCollection) => {});
+     * } catch (error) {
+     *   // Handle error
+     * }
+     * ```
+     */
+    public createChild(
+        _configure: (serviceCollection: ServiceCollection) => void,
+    ): ServiceProvider {
+        throw new IllegalStateException('Cannot create a child from an empty service provider');
+    }
+
     /**
      * Gets the singleton instance of EmptyDIServiceProvider.
      *
@@ -0,0 +1,44 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+/**
+ * Represents a long-running background service, such as a queue consumer or a scheduler, that
+ * is started and stopped by a host. Register it with `addHostedService`.
+ *
+ * @example Usage
+ * ```typescript
+ * class OutboxPublisher implements HostedService {
+ *   private _loop?: Promise<void>;
+ *
+ *   start(signal: AbortSignal): Promise<void> {
+ *     this._loop = this.publishUntil(signal);
+ *     return Promise.resolve();
+ *   }
+ *
+ *   async stop(): Promise<void> {
+ *     await this._loop;
+ *   }
+ * }
+ * ```
+ */
+export interface HostedService {
+    /**
+     * Starts the service. Resolves once the service is started, not when its work is done: run
+     * the work in the background and end it when the signal is aborted.
+     *
+     * @param {AbortSignal} signal - Aborted when the host shuts down.
+     * @returns {Promise<void>} A promise that resolves when the service is started.
+     */
+    start(signal: AbortSignal): Promise<void>;
+
+    /**
+     * Stops the service, finishing or abandoning the work in progress.
+     *
+     * @returns {Promise<void>} A promise that resolves when the service is stopped.
+     */
+    stop(): Promise<void>;
+}
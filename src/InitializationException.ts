@@ -0,0 +1,71 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { IllegalStateException } from '@domaincrafters/std';
+
+/**
+ * Represents a singleton that could not be created or started, together with the cause.
+ */
+export interface InitializationFailure {
+    key: string;
+    error: unknown;
+}
+
+/**
+ * Thrown when initializing a service provider fails. Every singleton is created before
+ * this exception is thrown, it lists every singleton that failed to be created, or the
+ * start hook that failed.
+ *
+ * @example Usage
+ * ```typescript
+ * try {
+ *   await serviceProvider.initialize();
+ * } catch (error) {
+ *   if (error instanceof InitializationException) {
+ *     for (const failure of error.failures) {
+ *       console.error(failure.key, failure.error);
+ *     }
+ *   }
+ *   Deno.exit(1);
+ * }
+ * ```
+ */
+export class InitializationException extends IllegalStateException {
+    private readonly _failures: InitializationFailure[];
+
+    /**
+     * Creates a new InitializationException for the given failures.
+     *
+     * @param {InitializationFailure[]} failures - The singletons that failed to initialize and their causes.
+     */
+    constructor(failures: InitializationFailure[]) {
+        super(
+            `Failed to initialize ${failures.length} service(s): ` +
+                failures.map((failure) => `'${failure.key}' (${failure.error})`).join(', '),
+        );
+        this.name = 'InitializationException';
+        this._failures = failures;
+    }
+
+    /**
+     * Gets the singletons that failed to initialize and their causes.
+     *
+     * @returns {InitializationFailure[]} The initialization failures.
+     */
+    get failures(): InitializationFailure[] {
+        return [...this._failures];
+    }
+
+    /**
+     * Gets the causes of the initialization failures, like AggregateError.errors.
+     *
+     * @returns {unknown[]} The errors thrown by the service factories or start hooks.
+     */
+    get errors(): unknown[] {
+        return this._failures.map((failure) => failure.error);
+    }
+}
@@ -0,0 +1,92 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { LazyServiceKey, type ServiceKey } from '@domaincrafters/di/mod.ts';
+
+/**
+ * Represents a handle to a service that is resolved on first access instead of when the
+ * handle is created. The resolved instance is kept, so later accesses return the same instance.
+ *
+ * @example Usage
+ * ```typescript
+ * const reportGenerator: Lazy<ReportGenerator> = serviceProvider.getLazy('reportGenerator');
+ *
+ * if (reportRequested) {
+ *   const generator = await reportGenerator.value();
+ *   // Use the generator
+ * }
+ * ```
+ */
+export class Lazy<Type> {
+    private readonly _resolve: () => Promise<Type>;
+    private _value?: Promise<Type>;
+
+    /**
+     * Creates a new lazy handle that resolves its value with the given function on first access.
+     *
+     * @generic Type - The type of the lazily resolved value.
+     * @param {() => Promise<Type>} resolve - The function resolving the value.
+     * @returns {Lazy<Type>} A new lazy handle.
+     *
+     * @example Usage
+     * ```typescript
+     * const lazyConfig = Lazy.create(async () => await loadConfig());
+     * ```
+     */
+    static create<Type>(resolve: () => Promise<Type>): Lazy<Type> {
+        return new Lazy<Type>(resolve);
+    }
+
+    /**
+     * Creates a constructor dependency that is injected as a lazy handle instead of the service.
+     *
+     * @generic Type - The type of the service.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @returns {LazyServiceKey<Type>} The lazy dependency.
+     *
+     * @example Usage
+     * ```typescript
+     * class ReportController {
+     *   static inject = ['logger', Lazy.of('reportGenerator')];
+     *
+     *   constructor(
+     *     private readonly logger: Logger,
+     *     private readonly reportGenerator: Lazy<ReportGenerator>,
+     *   ) {}
+     * }
+     * ```
+     */
+    static of<Type>(key: ServiceKey<Type>): LazyServiceKey<Type> {
+        return LazyServiceKey.create<Type>(key);
+    }
+
+    /**
+     * Resolves the value on first access and returns the same value on later accesses.
+     * When resolving fails, the next access tries again.
+     *
+     * @returns {Promise<Type>} The value.
+     *
+     * @example Usage
+     * ```typescript
+     * const generator = await reportGenerator.value();
+     * ```
+     */
+    async value(): Promise<Type> {
+        this._value ??= this._resolve();
+
+        try {
+            return await this._value;
+        } catch (error) {
+            this._value = undefined;
+            throw error;
+        }
+    }
+
+    private constructor(resolve: () => Promise<Type>) {
+        this._resolve = resolve;
+    }
+}
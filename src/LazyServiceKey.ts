@@ -0,0 +1,53 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import type { ServiceKey } from '@domaincrafters/di/mod.ts';
+
+/**
+ * Represents a constructor dependency of a registered class that is injected as a `Lazy`
+ * handle, so the service is only resolved when the class first accesses it.
+ *
+ * @example Usage
+ * ```typescript
+ * serviceCollection.addScopedClass('reportController', ReportController, [
+ *   'logger',
+ *   LazyServiceKey.create('reportGenerator'),
+ * ]);
+ * ```
+ */
+export class LazyServiceKey<Type> {
+    private readonly _key: ServiceKey<Type>;
+
+    /**
+     * Creates a new lazy dependency on the service with the given key.
+     *
+     * @generic Type - The type of the service.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @returns {LazyServiceKey<Type>} A new lazy dependency.
+     *
+     * @example Usage
+     * ```typescript
+     * const reportGeneratorKey = LazyServiceKey.create<ReportGenerator>('reportGenerator');
+     * ```
+     */
+    static create<Type>(key: ServiceKey<Type>): LazyServiceKey<Type> {
+        return new LazyServiceKey<Type>(key);
+    }
+
+    /**
+     * Gets the key of the lazily resolved service.
+     *
+     * @returns {ServiceKey<Type>} The key of the service.
+     */
+    get key(): ServiceKey<Type> {
+        return this._key;
+    }
+
+    private constructor(key: ServiceKey<Type>) {
+        this._key = key;
+    }
+}
@@ -5,25 +5,195 @@
  * https://opensource.org/licenses/MIT
  */
 
-import type { ServiceBinding, ServiceDisposer, ServiceFactory } from '@domaincrafters/di/mod.ts';
+import type {
+    Factory,
+    HostedService,
+    Instance,
+    ParameterizedServiceFactory,
+    ScopedServiceOptions,
+    ServiceBinding,
+    ServiceClass,
+    ServiceDecorator,
+    ServiceDependency,
+    ServiceDisposer,
+    ServiceFactory,
+    ServiceKey,
+    ServiceLifetime,
+    ServiceModule,
+    ServiceToken,
+    SingletonServiceOptions,
+} from '@domaincrafters/di/mod.ts';
 import type { Optional } from '@domaincrafters/std';
 
 export interface ServiceCollection {
+    addScoped<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+        scopedServiceOptions?: ScopedServiceOptions,
+    ): ServiceCollection;
     addScoped<Type>(
         key: string,
         serviceFactory: ServiceFactory,
         serviceDisposer?: ServiceDisposer<Type>,
+        scopedServiceOptions?: ScopedServiceOptions,
     ): ServiceCollection;
 
     addSingleton<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+        singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection;
+    addSingleton<Type>(
+        key: string,
+        serviceFactory: ServiceFactory,
+        serviceDisposer?: ServiceDisposer<Type>,
+        singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection;
+
+    addTransient<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    addTransient<Type>(
+        key: string,
+        serviceFactory: ServiceFactory,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+
+    addScopedClass<Type>(
+        key: ServiceKey<Type>,
+        serviceClass: ServiceClass<Type>,
+        dependencies?: ServiceDependency[],
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+
+    addSingletonClass<Type>(
+        key: ServiceKey<Type>,
+        serviceClass: ServiceClass<Type>,
+        dependencies?: ServiceDependency[],
+        serviceDisposer?: ServiceDisposer<Type>,
+        singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection;
+
+    addTransientClass<Type>(
+        key: ServiceKey<Type>,
+        serviceClass: ServiceClass<Type>,
+        dependencies?: ServiceDependency[],
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+
+    addInstance<Type>(
+        key: ServiceKey<Type>,
+        instance: Type,
+        serviceDisposer?: ServiceDisposer<Type>,
+        singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection;
+
+    addHostedService<Type extends HostedService>(
+        key: ServiceKey<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+
+    addFactory<Type, Args extends unknown[] = []>(
+        key: ServiceKey<Factory<Type, Args>>,
+        serviceFactory: ParameterizedServiceFactory<Type, Args>,
+    ): ServiceCollection;
+
+    tryAddScoped<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddScoped<Type>(
+        key: string,
+        serviceFactory: ServiceFactory,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+
+    tryAddSingleton<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddSingleton<Type>(
+        key: string,
+        serviceFactory: ServiceFactory,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+
+    tryAddTransient<Type>(
+        key: ServiceToken<Type>,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    tryAddTransient<Type>(
         key: string,
         serviceFactory: ServiceFactory,
         serviceDisposer?: ServiceDisposer<Type>,
     ): ServiceCollection;
 
-    addTransient(
+    replace<Type>(
+        key: ServiceToken<Type>,
+        serviceLifetime: ServiceLifetime,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    replace<Type>(
         key: string,
+        serviceLifetime: ServiceLifetime,
         serviceFactory: ServiceFactory,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+
+    decorate<Type>(
+        key: ServiceToken<Type>,
+        serviceDecorator: ServiceDecorator<Type>,
+        decoratorDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+    decorate(
+        key: string,
+        serviceDecorator: ServiceDecorator,
+        decoratorDisposer?: ServiceDisposer<Instance>,
+    ): ServiceCollection;
+
+    remove(key: ServiceKey): ServiceCollection;
+
+    removeKeyed(key: ServiceKey, name: string): ServiceCollection;
+
+    has(key: ServiceKey): boolean;
+
+    hasKeyed(key: ServiceKey, name: string): boolean;
+
+    addModule(...serviceModules: ServiceModule[]): ServiceCollection;
+
+    findModules(key: ServiceKey): string[];
+
+    clone(): ServiceCollection;
+
+    addKeyedScoped<Type>(
+        key: ServiceKey<Type>,
+        name: string,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+    ): ServiceCollection;
+
+    addKeyedSingleton<Type>(
+        key: ServiceKey<Type>,
+        name: string,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
+        singletonServiceOptions?: SingletonServiceOptions<Type>,
+    ): ServiceCollection;
+
+    addKeyedTransient<Type>(
+        key: ServiceKey<Type>,
+        name: string,
+        serviceFactory: ServiceFactory<Type>,
+        serviceDisposer?: ServiceDisposer<Type>,
     ): ServiceCollection;
 
     get scoped(): Map<string, ServiceBinding>;
@@ -32,5 +202,13 @@ export interface ServiceCollection {
 
     get transient(): Map<string, ServiceBinding>;
 
-    find(key: string): Optional<ServiceBinding>;
+    get keyed(): Map<string, Map<string, ServiceBinding>>;
+
+    find(key: ServiceKey): Optional<ServiceBinding>;
+
+    findAll(key: ServiceKey): ServiceBinding[];
+
+    findKeyed(key: ServiceKey, name: string): Optional<ServiceBinding>;
+
+    findAllKeyed(key: ServiceKey): Map<string, ServiceBinding>;
 }
@@ -0,0 +1,38 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import type { ServiceCollection } from '@domaincrafters/di/mod.ts';
+
+/**
+ * Represents a named bundle of registrations, applied to a service collection with `addModule`.
+ * The modules a module depends on are applied before it.
+ *
+ * @example Usage
+ * ```typescript
+ * const persistenceModule: ServiceModule = {
+ *   name: 'persistence',
+ *   register(serviceCollection) {
+ *     serviceCollection.addSingleton('dbPool', async (provider) => new DbPool());
+ *   },
+ * };
+ *
+ * const ordersModule: ServiceModule = {
+ *   name: 'orders',
+ *   dependsOn: [persistenceModule],
+ *   register(serviceCollection) {
+ *     serviceCollection.addScopedClass('orderRepository', OrderRepository, ['dbPool']);
+ *   },
+ * };
+ *
+ * serviceCollection.addModule(ordersModule);
+ * ```
+ */
+export interface ServiceModule {
+    name: string;
+    dependsOn?: ServiceModule[];
+    register(serviceCollection: ServiceCollection): void;
+}
@@ -0,0 +1,88 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import type { ServiceLifetime } from '@domaincrafters/di/mod.ts';
+import { IllegalStateException } from '@domaincrafters/std';
+
+/**
+ * Thrown when a required service cannot be resolved by a service provider.
+ *
+ * @example Usage
+ * ```typescript
+ * try {
+ *   await serviceProvider.getRequiredService<PaymentService>('paymentService');
+ * } catch (error) {
+ *   if (error instanceof ServiceNotFoundException) {
+ *     console.log(error.key); // 'paymentService'
+ *   }
+ * }
+ * ```
+ */
+export class ServiceNotFoundException extends IllegalStateException {
+    private readonly _key: string;
+    private readonly _resolutionPath: string[];
+    private readonly _serviceLifetime?: ServiceLifetime;
+
+    /**
+     * Creates a new ServiceNotFoundException for the given key.
+     *
+     * @param {string} key - The key of the service that could not be resolved.
+     * @param {string[]} resolutionPath - The keys being resolved when the service was requested.
+     * @param {ServiceLifetime} [serviceLifetime] - The lifetime of the requesting service provider.
+     */
+    constructor(key: string, resolutionPath: string[], serviceLifetime?: ServiceLifetime) {
+        super(ServiceNotFoundException.createMessage(key, resolutionPath, serviceLifetime));
+        this.name = 'ServiceNotFoundException';
+        this._key = key;
+        this._resolutionPath = resolutionPath;
+        this._serviceLifetime = serviceLifetime;
+    }
+
+    /**
+     * Gets the key of the service that could not be resolved.
+     *
+     * @returns {string} The key of the missing service.
+     */
+    get key(): string {
+        return this._key;
+    }
+
+    /**
+     * Gets the keys being resolved when the service was requested, without the missing key.
+     *
+     * @returns {string[]} The resolution path.
+     */
+    get resolutionPath(): string[] {
+        return [...this._resolutionPath];
+    }
+
+    /**
+     * Gets the lifetime of the service provider that requested the service, if known.
+     *
+     * @returns {ServiceLifetime | undefined} The lifetime of the requesting service provider.
+     */
+    get serviceLifetime(): ServiceLifetime | undefined {
+        return this._serviceLifetime;
+    }
+
+    private static createMessage(
+        key: string,
+        resolutionPath: string[],
+        serviceLifetime?: ServiceLifetime,
+    ): string {
+        const provider: string = serviceLifetime
+            ? `a ${serviceLifetime} service provider`
+            : 'an empty service provider';
+        const message: string = `Service '${key}' could not be resolved from ${provider}`;
+
+        if (resolutionPath.length === 0) {
+            return message;
+        }
+
+        return `${message} (resolving ${[...resolutionPath, key].join(' -> ')})`;
+    }
+}
@@ -5,6 +5,14 @@
  * https://opensource.org/licenses/MIT
  */
 
+import type {
+    DependencyGraph,
+    Lazy,
+    LazyServiceKey,
+    ServiceCollection,
+    ServiceKey,
+    ServiceProviderObserver,
+} from '@domaincrafters/di/mod.ts';
 import type { Optional } from '@domaincrafters/std';
 
 /**
@@ -40,6 +48,53 @@ export interface ServiceBinding {
     serviceLifetime: ServiceLifetime;
     serviceFactory: ServiceFactory;
     serviceDisposer?: ServiceDisposer<unknown>;
+    shareWithNestedScopes?: boolean;
+    dependencies?: string[];
+    eager?: boolean;
+    onStart?: ServiceStartHook<unknown>;
+    hosted?: boolean;
+}
+
+/**
+ * Represents the options of a scoped service.
+ *
+ * @example Usage
+ * ```typescript
+ * serviceCollection.addScoped('unitOfWork', unitOfWorkFactory, undefined, {
+ *   shareWithNestedScopes: false,
+ * });
+ * ```
+ */
+export interface ScopedServiceOptions {
+    /**
+     * Whether nested scopes resolve the instance of their parent scope, defaults to true.
+     * When false, every nested scope creates its own instance.
+     */
+    shareWithNestedScopes?: boolean;
+}
+
+/**
+ * Represents the options of a singleton service.
+ *
+ * @example Usage
+ * ```typescript
+ * serviceCollection.addSingleton('databasePool', databasePoolFactory, undefined, {
+ *   eager: true,
+ *   onStart: async (pool, provider) => await pool.connect(),
+ * });
+ * ```
+ */
+export interface SingletonServiceOptions<Type = Instance> {
+    /**
+     * Whether the singleton is created by `initialize({ eagerOnly: true })`, defaults to false.
+     */
+    eager?: boolean;
+
+    /**
+     * Called by `initialize` once the singleton is created, after the start hooks of the
+     * singletons created before it.
+     */
+    onStart?: ServiceStartHook<Type>;
 }
 
 /**
@@ -60,6 +115,7 @@ export interface Instance {
 
 /**
  * Defines the contract for a service provider capable of resolving services.
+ * Service providers are async disposable, so scopes can be declared with `await using`.
  *
  * @example Usage
  * ```typescript
@@ -69,25 +125,65 @@ export interface Instance {
  *   const userService = userServiceOptional.value;
  *   // Use the service
  * }
+ *
+ * {
+ *   await using scope = serviceProvider.createScope();
+ *   // The scope is disposed when the block exits, even when it throws
+ * }
  * ```
  */
-export interface ServiceProvider {
+export interface ServiceProvider extends AsyncDisposable {
     /**
-     * Creates a new scoped service provider.
+     * Creates a new scoped service provider, optionally with values provided to the scope.
      *
+     * @param {ScopeOptions} [options] - The values to provide to the scope.
      * @returns {ServiceProvider} A new scoped instance.
      *
      * @example Usage
      * ```typescript
      * const scopedProvider = serviceProvider.createScope();
+     * const requestScope = serviceProvider.createScope({ values: { currentUser: user } });
+     * ```
+     */
+    createScope(options?: ScopeOptions): ServiceProvider;
+
+    /**
+     * Provides a value to a scope, resolvable by `getService` inside the scope, its nested scopes
+     * and the scopes of its child providers only. A child provider is a root provider, so it does
+     * not resolve the value itself. The value is never disposed by the provider.
+     *
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the value.
+     * @param {Type} value - The value to provide.
+     * @returns {ServiceProvider} The scope for chaining.
+     * @throws {IllegalStateException} When the provider is not a scope.
+     *
+     * @example Usage
+     * ```typescript
+     * scope.provide('correlationId', correlationId);
      * ```
      */
-    createScope(): ServiceProvider;
+    provide<Type>(key: ServiceKey<Type>, value: Type): ServiceProvider;
+
+    /**
+     * Creates a child service provider with its own registrations layered on top of the
+     * registrations of this provider. Registrations of the child override those of the parent.
+     *
+     * @param {(serviceCollection: ServiceCollection) => void} configure - Registers the services of the child.
+     * @returns {ServiceProvider} A new child service provider.
+     *
+     * @example Usage
+     * ```typescript
+     * const testProvider = serviceProvider.createChild((serviceCollection) => {
+     *   serviceCollection.addSingleton('mailer', async (provider) => new FakeMailer());
+     * });
+     * ```
+     */
+    createChild(configure: (serviceCollection: ServiceCollection) => void): ServiceProvider;
 
     /**
      * Retrieves a service instance by its key.
      *
-     * @param {string} key - The unique key representing the service.
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
      * @returns {Promise<Optional<Type>>} An Optional containing the service instance if found, otherwise empty.
      *
      * @example Usage
@@ -97,9 +193,99 @@ export interface ServiceProvider {
      *   const myService = myServiceOptional.value;
      *   // Use the service
      * }
+     *
+     * const myServiceToken = ServiceToken.create<MyService>('myService');
+     * const typedOptional = await serviceProvider.getService(myServiceToken);
+     * ```
+     */
+    getService<Type>(key: ServiceKey<Type>): Promise<Optional<Type>>;
+
+    /**
+     * Retrieves a service instance by its key and throws when it cannot be resolved.
+     *
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @returns {Promise<Type>} The service instance.
+     * @throws {ServiceNotFoundException} When the service cannot be resolved.
+     *
+     * @example Usage
+     * ```typescript
+     * const myService = await serviceProvider.getRequiredService<MyService>('myService');
+     * ```
+     */
+    getRequiredService<Type>(key: ServiceKey<Type>): Promise<Type>;
+
+    /**
+     * Retrieves the instances of every service registered under a key, in registration order.
+     *
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the services.
+     * @returns {Promise<Type[]>} The service instances, empty when no service is registered.
+     *
+     * @example Usage
+     * ```typescript
+     * const validators = await serviceProvider.getServices<OrderValidator>('orderValidator');
+     * ```
+     */
+    getServices<Type>(key: ServiceKey<Type>): Promise<Type[]>;
+
+    /**
+     * Retrieves the named variant of a service, falling back to the unnamed service registered
+     * under the key when no variant with that name is registered.
+     *
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @param {string} name - The name of the variant.
+     * @returns {Promise<Optional<Type>>} An Optional containing the service instance if found, otherwise empty.
+     *
+     * @example Usage
+     * ```typescript
+     * const replica = await serviceProvider.getKeyedService<DatabaseConnection>(
+     *   'databaseConnection',
+     *   'replica',
+     * );
      * ```
      */
-    getService<Type>(key: string): Promise<Optional<Type>>;
+    getKeyedService<Type>(key: ServiceKey<Type>, name: string): Promise<Optional<Type>>;
+
+    /**
+     * Creates a handle that resolves a service on first access, from this service provider.
+     *
+     * @param {ServiceKey<Type>} key - The unique key or typed token representing the service.
+     * @returns {Lazy<Type>} A lazy handle to the service.
+     *
+     * @example Usage
+     * ```typescript
+     * const reportGenerator = serviceProvider.getLazy<ReportGenerator>('reportGenerator');
+     * const generator = await reportGenerator.value();
+     * ```
+     */
+    getLazy<Type>(key: ServiceKey<Type>): Lazy<Type>;
+
+    /**
+     * Gets the graph of the registered services and the dependencies between them, annotated
+     * with the lifetime of each service.
+     *
+     * @returns {DependencyGraph} The dependency graph.
+     *
+     * @example Usage
+     * ```typescript
+     * console.log(serviceProvider.getDependencyGraph().toMermaid());
+     * ```
+     */
+    getDependencyGraph(): DependencyGraph;
+
+    /**
+     * Creates the singletons up front and runs their start hooks, so misconfiguration fails
+     * before the application starts accepting requests.
+     *
+     * @param {InitializeOptions} [options] - Whether only singletons flagged eager are created.
+     * @returns {Promise<void>} A promise that resolves when every singleton is created and started.
+     * @throws {InitializationException} When a singleton cannot be created or started.
+     *
+     * @example Usage
+     * ```typescript
+     * await serviceProvider.initialize();
+     * ```
+     */
+    initialize(options?: InitializeOptions): Promise<void>;
 
     /**
      * Disposes the service provider and releases all resources.
@@ -114,11 +300,68 @@ export interface ServiceProvider {
     dispose(): Promise<void>;
 }
 
+/**
+ * Represents the options of a new scope.
+ *
+ * @example Usage
+ * ```typescript
+ * const options: ScopeOptions = { values: { currentUser: user, correlationId } };
+ * const requestScope = serviceProvider.createScope(options);
+ * const unitOfWorkScope = requestScope.createScope({ nested: true });
+ * ```
+ */
+export interface ScopeOptions {
+    /**
+     * Values provided to the scope by key, resolvable inside the scope only.
+     */
+    values?: Record<string, unknown>;
+
+    /**
+     * Whether the new scope is nested in the scope it is created from, so it resolves the
+     * scoped instances of that scope that are shared with nested scopes. Defaults to false.
+     */
+    nested?: boolean;
+}
+
+/**
+ * Represents the options of initializing a service provider.
+ *
+ * @example Usage
+ * ```typescript
+ * await serviceProvider.initialize({ eagerOnly: true });
+ * ```
+ */
+export interface InitializeOptions {
+    /**
+     * Whether only singletons registered with `eager: true` are created, together with their
+     * dependencies. Defaults to false, creating every singleton.
+     */
+    eagerOnly?: boolean;
+}
+
+/**
+ * Represents the options of a new service provider.
+ *
+ * @example Usage
+ * ```typescript
+ * const options: ServiceProviderOptions = { observers: [loggingObserver] };
+ * const serviceProvider = DIServiceProvider.create(serviceCollection, options);
+ * ```
+ */
+export interface ServiceProviderOptions {
+    /**
+     * Observers notified when the provider, its scopes and its children resolve and dispose
+     * services.
+     */
+    observers?: ServiceProviderObserver[];
+}
+
 /**
  * Represents a factory function that creates a service instance.
  *
+ * @generic Type - The type of the created service, defaults to Instance.
  * @param {ServiceProvider} serviceProvider - The service provider to resolve dependencies.
- * @returns {Promise<Instance>} A promise that resolves to the created service instance.
+ * @returns {Promise<Type>} A promise that resolves to the created service instance.
  *
  * @example Usage
  * ```typescript
@@ -128,9 +371,102 @@ export interface ServiceProvider {
  * };
  * ```
  */
-export type ServiceFactory = (
+export type ServiceFactory<Type = Instance> = (
     serviceProvider: ServiceProvider,
-) => Promise<Instance>;
+) => Promise<Type>;
+
+/**
+ * Represents a factory handed out by the container that creates a new service instance from
+ * runtime arguments each time it is called.
+ *
+ * @generic Type - The type of the created service.
+ * @generic Args - The types of the runtime arguments.
+ *
+ * @example Usage
+ * ```typescript
+ * const orderFactory = await provider.getRequiredService<Factory<Order, [OrderId]>>('orderFactory');
+ * const order = await orderFactory(orderId);
+ * ```
+ */
+export type Factory<Type, Args extends unknown[] = []> = (...args: Args) => Promise<Type>;
+
+/**
+ * Represents a factory function that creates a service instance from its dependencies and
+ * runtime arguments.
+ *
+ * @generic Type - The type of the created service.
+ * @generic Args - The types of the runtime arguments.
+ * @param {ServiceProvider} serviceProvider - The service provider to resolve dependencies.
+ * @param {Args} args - The runtime arguments.
+ * @returns {Promise<Type>} A promise that resolves to the created service instance.
+ *
+ * @example Usage
+ * ```typescript
+ * const orderFactory: ParameterizedServiceFactory<Order, [OrderId]> = async (provider, orderId) => {
+ *   const clock = await provider.getRequiredService<Clock>('clock');
+ *   return new Order(orderId, clock.now());
+ * };
+ * ```
+ */
+export type ParameterizedServiceFactory<Type, Args extends unknown[] = []> = (
+    serviceProvider: ServiceProvider,
+    ...args: Args
+) => Promise<Type>;
+
+/**
+ * Represents a decorator function that wraps a service instance created by a service factory.
+ *
+ * @generic Type - The type of the decorated service, defaults to Instance.
+ * @param {Type} inner - The service instance to wrap.
+ * @param {ServiceProvider} serviceProvider - The service provider to resolve dependencies.
+ * @returns {Promise<Type>} A promise that resolves to the wrapping service instance.
+ *
+ * @example Usage
+ * ```typescript
+ * const loggingDecorator: ServiceDecorator<OrderRepository> = async (inner, provider) => {
+ *   const logger = await provider.getRequiredService<Logger>('logger');
+ *   return new LoggingOrderRepository(inner, logger);
+ * };
+ * ```
+ */
+export type ServiceDecorator<Type = Instance> = (
+    inner: Type,
+    serviceProvider: ServiceProvider,
+) => Promise<Type>;
+
+/**
+ * Represents a constructor dependency of a registered class: the key of a service, or a
+ * lazy dependency that is injected as a `Lazy` handle.
+ *
+ * @example Usage
+ * ```typescript
+ * const dependencies: ServiceDependency[] = ['logger', Lazy.of('reportGenerator')];
+ * ```
+ */
+export type ServiceDependency = ServiceKey | LazyServiceKey<unknown>;
+
+/**
+ * Represents a class that can be registered as a service. The container resolves the keys of
+ * its dependencies, in constructor argument order, and passes them to the constructor.
+ * Dependencies can be declared at registration or with a static `inject` property.
+ *
+ * @generic Type - The type of the service the class creates.
+ *
+ * @example Usage
+ * ```typescript
+ * class OrderRepository {
+ *   static inject = ['dbPool', 'logger'];
+ *
+ *   constructor(private readonly dbPool: DbPool, private readonly logger: Logger) {}
+ * }
+ *
+ * const serviceClass: ServiceClass<OrderRepository> = OrderRepository;
+ * ```
+ */
+export type ServiceClass<Type> =
+    // deno-lint-ignore no-explicit-any
+    & (new (...dependencies: any[]) => Type)
+    & { inject?: ServiceDependency[] };
 
 /**
  * Represents a disposer function that disposes a service instance.
@@ -152,7 +488,29 @@ export type ServiceDisposer<Type> = (
 ) => Promise<void>;
 
 /**
- * The default service disposer function that does nothing.
+ * Represents a function that starts a singleton once it is created by `initialize`, for example
+ * to open a connection or warm a cache.
+ *
+ * @generic Type - The type of the service.
+ * @param {Type} service - The singleton instance.
+ * @param {ServiceProvider} serviceProvider - The service provider.
+ * @returns {Promise<void>} A promise that resolves when the singleton is started.
+ *
+ * @example Usage
+ * ```typescript
+ * const startDatabasePool: ServiceStartHook<DatabasePool> = async (pool, provider) => {
+ *   await pool.connect();
+ * };
+ * ```
+ */
+export type ServiceStartHook<Type> = (
+    service: Type,
+    serviceProvider: ServiceProvider,
+) => Promise<void>;
+
+/**
+ * The default service disposer function. Disposes instances that implement
+ * `Symbol.asyncDispose` or `Symbol.dispose` and does nothing for other instances.
  *
  * @example Usage
  * ```typescript
@@ -160,6 +518,16 @@ export type ServiceDisposer<Type> = (
  * ```
  */
 export const defaultServiceDisposer: ServiceDisposer<unknown> = async (
-    _instance: unknown,
+    instance: unknown,
     _serviceProvider: ServiceProvider,
-): Promise<void> => {};
+): Promise<void> => {
+    const disposable = instance as Partial<AsyncDisposable & Disposable> | undefined;
+    const asyncDispose = disposable?.[Symbol.asyncDispose];
+    const dispose = disposable?.[Symbol.dispose];
+
+    if (typeof asyncDispose === 'function') {
+        await asyncDispose.call(disposable);
+    } else if (typeof dispose === 'function') {
+        dispose.call(disposable);
+    }
+};
@@ -0,0 +1,98 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import type { ServiceLifetime } from '@domaincrafters/di/mod.ts';
+
+/**
+ * Describes what a service provider is doing with a service, passed to a service provider observer.
+ *
+ * @example Usage
+ * ```typescript
+ * const event: ServiceEvent = {
+ *   key: 'paymentService',
+ *   lifetime: ServiceLifetime.Singleton,
+ *   scopeId: '5b0c3a52-5f1e-4d4b-9a53-0b7c2f8c1e2d',
+ *   parentKey: 'orderService',
+ *   duration: 12.5,
+ * };
+ * ```
+ */
+export interface ServiceEvent {
+    /**
+     * The key of the service, `key[name]` for a named variant.
+     */
+    key: string;
+    lifetime: ServiceLifetime;
+    /**
+     * The id of the service provider or scope handling the service.
+     */
+    scopeId: string;
+    /**
+     * The key of the service whose factory resolves this service, missing when the service is
+     * resolved directly from the provider.
+     */
+    parentKey?: string;
+    /**
+     * The time in milliseconds the resolution, factory or disposer took, missing when it starts.
+     */
+    duration?: number;
+    /**
+     * The cause of a failed resolution or disposal, only set for `onError`.
+     */
+    error?: unknown;
+}
+
+/**
+ * Observes the resolution and disposal of services by a service provider, for logging, tracing
+ * or debugging slow startups. Every hook is optional and hooks are called synchronously. Errors
+ * thrown by a hook are ignored, so an observer never fails a resolution or disposal.
+ *
+ * @example Usage
+ * ```typescript
+ * const loggingObserver: ServiceProviderObserver = {
+ *   onCreated: (event) => console.debug(`Created '${event.key}' in ${event.duration}ms`),
+ *   onError: (event) => console.error(`Failed '${event.key}'`, event.error),
+ * };
+ *
+ * const serviceProvider = DIServiceProvider.create(serviceCollection, {
+ *   observers: [loggingObserver],
+ * });
+ * ```
+ */
+export interface ServiceProviderObserver {
+    /**
+     * Called when a registered service is requested, before it is resolved.
+     */
+    onResolving?(event: ServiceEvent): void;
+
+    /**
+     * Called when a factory created a new instance, with the time the factory took.
+     */
+    onCreated?(event: ServiceEvent): void;
+
+    /**
+     * Called when a service is resolved, whether it was created or reused, with the time the
+     * resolution took.
+     */
+    onResolved?(event: ServiceEvent): void;
+
+    /**
+     * Called before an instance is disposed.
+     */
+    onDisposing?(event: ServiceEvent): void;
+
+    /**
+     * Called when an instance is disposed, with the time the disposer took.
+     */
+    onDisposed?(event: ServiceEvent): void;
+
+    /**
+     * Called when resolving or disposing a service failed, with the cause. A failure is
+     * reported for the failing service and for each service depending on it.
+     */
+    onError?(event: ServiceEvent): void;
+}
@@ -0,0 +1,94 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+/**
+ * Represents a typed key for a service, carrying the type of the service it resolves to.
+ * Two tokens created with the same key refer to the same service registration.
+ *
+ * @example Usage
+ * ```typescript
+ * const configServiceToken = ServiceToken.create<ConfigService>('configService');
+ *
+ * serviceCollection.addSingleton(configServiceToken, async (provider) => new ConfigService());
+ *
+ * const configService = await serviceProvider.getService(configServiceToken);
+ * // configService is an Optional<ConfigService>
+ * ```
+ */
+export class ServiceToken<Type> {
+    /**
+     * Carries the type of the service at compile time only, it is never assigned.
+     */
+    declare readonly serviceType?: Type;
+
+    private readonly _key: string;
+
+    /**
+     * Creates a new typed service token for the given key.
+     *
+     * @generic Type - The type of the service the token resolves to.
+     * @param {string} key - The unique key representing the service.
+     * @returns {ServiceToken<Type>} A new service token.
+     *
+     * @example Usage
+     * ```typescript
+     * const userServiceToken = ServiceToken.create<UserService>('userService');
+     * ```
+     */
+    static create<Type>(key: string): ServiceToken<Type> {
+        return new ServiceToken<Type>(key);
+    }
+
+    /**
+     * Gets the string key of a service key, unwrapping it when it is a service token.
+     *
+     * @param {ServiceKey<Type>} key - A string key or a service token.
+     * @returns {string} The string key.
+     *
+     * @example Usage
+     * ```typescript
+     * ServiceToken.keyOf('userService'); // 'userService'
+     * ServiceToken.keyOf(ServiceToken.create<UserService>('userService')); // 'userService'
+     * ```
+     */
+    static keyOf<Type>(key: ServiceKey<Type>): string {
+        return key instanceof ServiceToken ? key.key : key;
+    }
+
+    /**
+     * Gets the unique key representing the service.
+     *
+     * @returns {string} The key of the service.
+     */
+    get key(): string {
+        return this._key;
+    }
+
+    /**
+     * Returns the key of the service.
+     *
+     * @returns {string} The key of the service.
+     */
+    toString(): string {
+        return this._key;
+    }
+
+    private constructor(key: string) {
+        this._key = key;
+    }
+}
+
+/**
+ * Represents the key of a service: either a plain string or a typed service token.
+ *
+ * @example Usage
+ * ```typescript
+ * const plainKey: ServiceKey = 'configService';
+ * const typedKey: ServiceKey<ConfigService> = ServiceToken.create<ConfigService>('configService');
+ * ```
+ */
+export type ServiceKey<Type = unknown> = string | ServiceToken<Type>;
@@ -0,0 +1,46 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+/**
+ * Defines the kinds of problems found when validating a service collection.
+ *
+ * @example Usage
+ * ```typescript
+ * const problems = await DIServiceProvider.validate(serviceCollection);
+ * const missing = problems.filter((problem) =>
+ *   problem.type === ServiceValidationProblemType.MissingDependency
+ * );
+ * ```
+ */
+export enum ServiceValidationProblemType {
+    MissingDependency = 'MissingDependency',
+    CircularDependency = 'CircularDependency',
+    CaptiveDependency = 'CaptiveDependency',
+    FactoryFailure = 'FactoryFailure',
+}
+
+/**
+ * Represents a problem found when validating a service collection.
+ *
+ * @example Usage
+ * ```typescript
+ * const problem: ServiceValidationProblem = {
+ *   type: ServiceValidationProblemType.MissingDependency,
+ *   key: 'orderService',
+ *   dependencyKey: 'paymentService',
+ *   message: "Service 'orderService' depends on 'paymentService', which is not registered",
+ * };
+ * ```
+ */
+export interface ServiceValidationProblem {
+    type: ServiceValidationProblemType;
+    key: string;
+    message: string;
+    dependencyKey?: string;
+    resolutionPath?: string[];
+    error?: unknown;
+}
@@ -0,0 +1,224 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import {
+    DIHost,
+    DIServiceCollection,
+    DisposalException,
+    HostedService,
+} from '@domaincrafters/di/mod.ts';
+import { assert, assertEquals, assertFalse, assertInstanceOf, assertRejects } from '@std/assert';
+
+class RecordingHostedService implements HostedService {
+    readonly name: string;
+    readonly events: string[];
+    signal?: AbortSignal;
+
+    constructor(name: string, events: string[]) {
+        this.name = name;
+        this.events = events;
+    }
+
+    start(signal: AbortSignal): Promise<void> {
+        this.signal = signal;
+        this.events.push(`start ${this.name}`);
+        return Promise.resolve();
+    }
+
+    stop(): Promise<void> {
+        this.events.push(`stop ${this.name}`);
+        return Promise.resolve();
+    }
+}
+
+Deno.test('DIHost - run starts hosted services and stops them in reverse order on shutdown', async () => {
+    // Arrange
+    const events: string[] = [];
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => ({ config: 1 }), async () => {
+            events.push('dispose configService');
+        }, {
+            onStart: async () => {
+                events.push('start configService');
+            },
+        })
+        .addHostedService('outboxPublisher', async (provider) => {
+            await provider.getRequiredService('configService');
+            return new RecordingHostedService('outboxPublisher', events);
+        })
+        .addHostedService('scheduler', async (_provider) => {
+            return new RecordingHostedService('scheduler', events);
+        });
+    const host = DIHost.create(serviceCollection);
+
+    // Act
+    const running = host.run();
+    host.shutdown();
+    await running;
+
+    // Assert
+    assertEquals(events, [
+        'start configService',
+        'start outboxPublisher',
+        'start scheduler',
+        'stop scheduler',
+        'stop outboxPublisher',
+        'dispose configService',
+    ]);
+});
+
+Deno.test('DIHost - start starts every hosted service registered under the same key', async () => {
+    // Arrange
+    const events: string[] = [];
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addHostedService('worker', async (_provider) => {
+            return new RecordingHostedService('orders worker', events);
+        })
+        .addHostedService('worker', async (_provider) => {
+            return new RecordingHostedService('invoices worker', events);
+        });
+    const host = DIHost.create(serviceCollection);
+
+    // Act
+    await host.start();
+    await host.stop();
+
+    // Assert
+    assertEquals(events, [
+        'start orders worker',
+        'start invoices worker',
+        'stop invoices worker',
+        'stop orders worker',
+    ]);
+});
+
+Deno.test('DIHost - start starts a hosted service whose key is registered again with another lifetime', async () => {
+    // Arrange
+    const events: string[] = [];
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addHostedService('scheduler', async (_provider) => {
+            return new RecordingHostedService('scheduler', events);
+        })
+        .addScoped('scheduler', async (_provider) => ({ user: 'John Doe' }));
+    const host = DIHost.create(serviceCollection);
+
+    // Act
+    await host.start();
+    await host.stop();
+
+    // Assert
+    assertEquals(events, ['start scheduler', 'stop scheduler']);
+});
+
+Deno.test('DIHost - stop aborts the signal passed to hosted services', async () => {
+    // Arrange
+    const hostedService = new RecordingHostedService('scheduler', []);
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addHostedService('scheduler', async (_provider) => hostedService);
+    const host = DIHost.create(serviceCollection, { signals: [] });
+    await host.start();
+    const abortedBeforeStop = hostedService.signal?.aborted;
+
+    // Act
+    await host.stop();
+    await host.stop();
+
+    // Assert
+    assertFalse(abortedBeforeStop);
+    assert(hostedService.signal?.aborted);
+});
+
+Deno.test('DIHost - stop reports hosted services that do not stop within the timeout', async () => {
+    // Arrange
+    const events: string[] = [];
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addHostedService('outboxPublisher', async (_provider) => {
+            return new RecordingHostedService('outboxPublisher', events);
+        })
+        .addHostedService('scheduler', async (_provider) => ({
+            start: () => Promise.resolve(),
+            stop: () => new Promise<void>(() => {}),
+        }))
+        .addSingleton('configService', async (_provider) => ({ config: 1 }), async () => {
+            events.push('dispose configService');
+        });
+    const host = DIHost.create(serviceCollection, { shutdownTimeout: 10 });
+    await host.start();
+
+    // Act
+    const error = await assertRejects(() => host.stop(), DisposalException);
+
+    // Assert
+    assertEquals(error.failures.map((failure) => failure.key), ['scheduler']);
+    assertEquals(events, [
+        'start outboxPublisher',
+        'stop outboxPublisher',
+        'dispose configService',
+    ]);
+});
+
+Deno.test('DIHost - run stops started hosted services when a hosted service fails to start', async () => {
+    // Arrange
+    const events: string[] = [];
+    const startError = new Error('Broker unreachable');
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addHostedService('outboxPublisher', async (_provider) => {
+            return new RecordingHostedService('outboxPublisher', events);
+        })
+        .addHostedService('scheduler', async (_provider) => ({
+            start: () => Promise.reject(startError),
+            stop: () => Promise.resolve(),
+        }));
+    const host = DIHost.create(serviceCollection);
+
+    // Act
+    const error = await assertRejects(() => host.run());
+
+    // Assert
+    assertEquals(error, startError);
+    assertEquals(events, ['start outboxPublisher', 'stop outboxPublisher']);
+    await assertRejects(() => host.serviceProvider.getService('outboxPublisher'));
+});
+
+Deno.test('DIHost - run throws the start error together with the stop error when both fail', async () => {
+    // Arrange
+    const startError = new Error('Broker unreachable');
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addHostedService('outboxPublisher', async (_provider) => ({
+            start: () => Promise.resolve(),
+            stop: () => Promise.reject(new Error('Outbox not flushed')),
+        }))
+        .addHostedService('scheduler', async (_provider) => ({
+            start: () => Promise.reject(startError),
+            stop: () => Promise.resolve(),
+        }));
+    const host = DIHost.create(serviceCollection);
+
+    // Act
+    const error = await assertRejects(() => host.run(), AggregateError);
+
+    // Assert
+    const [runStartError, runStopError] = error.errors;
+    assertEquals(runStartError, startError);
+    assertInstanceOf(runStopError, DisposalException);
+    assertEquals(runStopError.failures.map((failure) => failure.key), ['outboxPublisher']);
+});
+
+Deno.test('DIHost - start throws when the host is stopped', async () => {
+    // Arrange
+    const host = DIHost.create(DIServiceCollection.create());
+    await host.stop();
+
+    // Act & Assert
+    await assertRejects(() => host.start(), Error, 'Cannot start a host that has been stopped');
+});
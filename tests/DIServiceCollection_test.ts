@@ -5,8 +5,19 @@
  * https://opensource.org/licenses/MIT
  */
 
-import { DIServiceCollection, ServiceFactory, ServiceDisposer, ServiceProvider } from '@domaincrafters/di/mod.ts';
-import { assert, assertEquals } from '@std/assert';
+import {
+    DIServiceCollection,
+    EmptyDIServiceProvider,
+    Lazy,
+    ServiceCollection,
+    ServiceDisposer,
+    ServiceFactory,
+    ServiceLifetime,
+    ServiceModule,
+    ServiceProvider,
+    ServiceToken,
+} from '@domaincrafters/di/mod.ts';
+import { assert, assertEquals, assertFalse, assertThrows } from '@std/assert';
 
 class ConfigService {
     config: string = 'value';
@@ -453,3 +464,512 @@ Deno.test('DIServiceCollection - chaining service collection methods', () => {
     assert(serviceCollection.transient.has(serviceKey3));
 });
 
+
+Deno.test('DIServiceCollection - adding a service with a token finds it by its string key', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const serviceToken = ServiceToken.create<ConfigService>('configService');
+    const createCallback: ServiceFactory<ConfigService> = async (_provider) => new ConfigService();
+    serviceCollection.addSingleton(serviceToken, createCallback);
+
+    // Act
+    const bindingOptional = serviceCollection.find('configService');
+
+    // Assert
+    assert(bindingOptional.isPresent);
+    assertEquals(bindingOptional.value.serviceFactory, createCallback);
+    assert(serviceCollection.find(serviceToken).isPresent);
+});
+
+Deno.test('DIServiceCollection - addTransient adds a transient service with a disposer', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const serviceKey = 'httpClient';
+    const createCallback: ServiceFactory = async (_provider) => ({
+        close: async () => {},
+    });
+    const serviceDisposer: ServiceDisposer<{ close: () => Promise<void> }> = async (client) => {
+        await client.close();
+    };
+
+    // Act
+    serviceCollection.addTransient(serviceKey, createCallback, serviceDisposer);
+
+    // Assert
+    const binding = serviceCollection.transient.get(serviceKey);
+    assert(binding !== undefined);
+    assertEquals(binding.serviceDisposer, serviceDisposer);
+});
+
+Deno.test('DIServiceCollection - class registrations add bindings with their lifetime', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+
+    // Act
+    serviceCollection
+        .addSingletonClass('configService', ConfigService)
+        .addScopedClass('scopedConfigService', ConfigService)
+        .addTransientClass('transientConfigService', ConfigService);
+
+    // Assert
+    assert(serviceCollection.singleton.has('configService'));
+    assert(serviceCollection.scoped.has('scopedConfigService'));
+    assert(serviceCollection.transient.has('transientConfigService'));
+});
+
+Deno.test('DIServiceCollection - class registrations record their declared dependencies', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const loggerToken = ServiceToken.create<ConfigService>('logger');
+
+    // Act
+    serviceCollection
+        .addSingletonClass('configService', ConfigService)
+        .addScopedClass('scopedConfigService', ConfigService, [
+            loggerToken,
+            Lazy.of('configService'),
+        ]);
+
+    // Assert
+    assertEquals(serviceCollection.singleton.get('configService')?.dependencies, []);
+    assertEquals(serviceCollection.scoped.get('scopedConfigService')?.dependencies, [
+        'logger',
+        'configService',
+    ]);
+});
+
+Deno.test('DIServiceCollection - singleton registrations keep their eager flag and start hook', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const onStart = async (_configService: ConfigService, _provider: ServiceProvider) => {};
+
+    // Act
+    serviceCollection
+        .addSingleton('configService', async (_provider) => new ConfigService(), undefined, {
+            eager: true,
+            onStart,
+        })
+        .addSingletonClass('classConfigService', ConfigService, [], undefined, { onStart })
+        .addSingleton('lazyConfigService', async (_provider) => new ConfigService());
+
+    // Assert
+    const binding = serviceCollection.singleton.get('configService');
+    const classBinding = serviceCollection.singleton.get('classConfigService');
+    assert(binding !== undefined && classBinding !== undefined);
+    assert(binding.eager);
+    assertEquals(binding.onStart, onStart);
+    assertEquals(classBinding.onStart, onStart);
+    assertEquals(serviceCollection.singleton.get('lazyConfigService')?.eager, undefined);
+});
+
+Deno.test('DIServiceCollection - addHostedService adds a hosted singleton service', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+
+    // Act
+    serviceCollection
+        .addHostedService('scheduler', async (_provider) => ({
+            start: () => Promise.resolve(),
+            stop: () => Promise.resolve(),
+        }))
+        .addSingleton('configService', async (_provider) => new ConfigService());
+
+    // Assert
+    assert(serviceCollection.singleton.get('scheduler')?.hosted);
+    assertEquals(serviceCollection.singleton.get('configService')?.hosted, undefined);
+});
+
+Deno.test('DIServiceCollection - addInstance adds a singleton service', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const configService = new ConfigService();
+
+    // Act
+    serviceCollection.addInstance('configService', configService);
+
+    // Assert
+    const binding = serviceCollection.singleton.get('configService');
+    assert(binding !== undefined);
+    assertEquals(await binding.serviceFactory(EmptyDIServiceProvider.instance()), configService);
+});
+
+Deno.test('DIServiceCollection - findAll returns every binding of a key in registration order', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const serviceKey = 'orderPlacedHandler';
+    const createCallback1: ServiceFactory = async (_provider) => ({ handle: () => {} });
+    const createCallback2: ServiceFactory = async (_provider) => ({ handle: () => {} });
+    serviceCollection.addSingleton(serviceKey, createCallback1);
+    serviceCollection.addTransient(serviceKey, createCallback2);
+
+    // Act
+    const bindings = serviceCollection.findAll(serviceKey);
+
+    // Assert
+    assertEquals(bindings.length, 2);
+    assertEquals(bindings[0]!.serviceFactory, createCallback1);
+    assertEquals(bindings[1]!.serviceFactory, createCallback2);
+    assertEquals(serviceCollection.singleton.size, 0);
+    assertEquals(serviceCollection.transient.get(serviceKey)?.serviceFactory, createCallback2);
+});
+
+Deno.test('DIServiceCollection - findAll returns empty for non-existing service', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+
+    // Act
+    const bindings = serviceCollection.findAll('orderPlacedHandler');
+
+    // Assert
+    assertEquals(bindings, []);
+});
+
+Deno.test('DIServiceCollection - tryAddSingleton only registers when the key is not registered', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const createCallback1: ServiceFactory = async (_provider) => new ConfigService();
+    const createCallback2: ServiceFactory = async (_provider) => new ConfigService();
+
+    // Act
+    serviceCollection.tryAddSingleton('configService', createCallback1);
+    serviceCollection.tryAddSingleton('configService', createCallback2);
+    serviceCollection.tryAddTransient('configService', createCallback2);
+
+    // Assert
+    const bindings = serviceCollection.findAll('configService');
+    assertEquals(bindings.length, 1);
+    assertEquals(bindings[0]!.serviceFactory, createCallback1);
+    assertEquals(serviceCollection.transient.size, 0);
+});
+
+Deno.test('DIServiceCollection - replace swaps every binding of a key for a single new one', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const createCallback: ServiceFactory = async (_provider) => new ConfigService();
+    serviceCollection.addSingleton('configService', async (_provider) => new ConfigService());
+    serviceCollection.addSingleton('configService', async (_provider) => new ConfigService());
+
+    // Act
+    serviceCollection.replace('configService', ServiceLifetime.Scoped, createCallback);
+
+    // Assert
+    const bindings = serviceCollection.findAll('configService');
+    assertEquals(bindings.length, 1);
+    assertEquals(bindings[0]!.serviceFactory, createCallback);
+    assertEquals(serviceCollection.singleton.size, 0);
+    assertEquals(serviceCollection.scoped.get('configService')?.serviceFactory, createCallback);
+});
+
+Deno.test('DIServiceCollection - replace throws for non-existing service', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+
+    // Act & Assert
+    assertThrows(
+        () =>
+            serviceCollection.replace(
+                'configService',
+                ServiceLifetime.Singleton,
+                async (_provider) => new ConfigService(),
+            ),
+        Error,
+        "Cannot replace service 'configService', it is not registered",
+    );
+});
+
+Deno.test('DIServiceCollection - remove and has', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const configServiceToken = ServiceToken.create<ConfigService>('configService');
+    serviceCollection.addSingleton(configServiceToken, async (_provider) => new ConfigService());
+
+    // Act
+    const hadService = serviceCollection.has('configService');
+    serviceCollection.remove(configServiceToken).remove('unknownService');
+
+    // Assert
+    assert(hadService);
+    assertFalse(serviceCollection.has(configServiceToken));
+    assert(!serviceCollection.find('configService').isPresent);
+});
+
+Deno.test('DIServiceCollection - remove and has leave the named variants of a key', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addModule({
+        name: 'persistence',
+        register(serviceCollection) {
+            serviceCollection
+                .addSingleton('db', async (_provider) => new ConfigService())
+                .addKeyedSingleton('db', 'replica', async (_provider) => new ConfigService());
+        },
+    });
+
+    // Act
+    serviceCollection.remove('db');
+
+    // Assert
+    assertFalse(serviceCollection.has('db'));
+    assert(serviceCollection.hasKeyed('db', 'replica'));
+    assertEquals(serviceCollection.findModules('db'), ['persistence']);
+});
+
+Deno.test('DIServiceCollection - removeKeyed and hasKeyed', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addModule({
+        name: 'persistence',
+        register(serviceCollection) {
+            serviceCollection
+                .addKeyedSingleton('db', 'replica', async (_provider) => new ConfigService())
+                .addKeyedSingleton('db', 'reporting', async (_provider) => new ConfigService());
+        },
+    });
+
+    // Act
+    serviceCollection.removeKeyed('db', 'replica');
+    const hasReporting = serviceCollection.hasKeyed('db', 'reporting');
+    serviceCollection.removeKeyed('db', 'reporting').removeKeyed('db', 'unknown');
+
+    // Assert
+    assert(hasReporting);
+    assertFalse(serviceCollection.hasKeyed('db', 'replica'));
+    assertEquals(serviceCollection.findAllKeyed('db').size, 0);
+    assertEquals(serviceCollection.findModules('db'), []);
+});
+
+Deno.test('DIServiceCollection - tryAdd treats a key with named variants only as not registered', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const defaultCallback: ServiceFactory = async (_provider) => new ConfigService();
+    serviceCollection.addKeyedSingleton('db', 'replica', async (_provider) => new ConfigService());
+
+    // Act
+    const hadService = serviceCollection.has('db');
+    serviceCollection.tryAddSingleton('db', defaultCallback);
+
+    // Assert
+    assertFalse(hadService);
+    assertEquals(serviceCollection.find('db').value.serviceFactory, defaultCallback);
+});
+
+Deno.test('DIServiceCollection - replace keeps the named variants of a key', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const createCallback: ServiceFactory = async (_provider) => new ConfigService();
+    serviceCollection
+        .addSingleton('db', async (_provider) => new ConfigService())
+        .addKeyedScoped('db', 'replica', async (_provider) => new ConfigService())
+        .addKeyedScoped('db', 'reporting', async (_provider) => new ConfigService());
+
+    // Act
+    serviceCollection.replace('db', ServiceLifetime.Singleton, createCallback);
+
+    // Assert
+    assertEquals(serviceCollection.findAll('db').map((binding) => binding.serviceFactory), [
+        createCallback,
+    ]);
+    assertEquals([...serviceCollection.findAllKeyed('db').keys()], ['replica', 'reporting']);
+});
+
+Deno.test('DIServiceCollection - findAllKeyed enumerates the named variants of a key', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const connectionToken = ServiceToken.create<ConfigService>('databaseConnection');
+    const replicaCallback: ServiceFactory = async (_provider) => new ConfigService();
+    serviceCollection
+        .addSingleton(connectionToken, async (_provider) => new ConfigService())
+        .addKeyedSingleton(connectionToken, 'primary', async (_provider) => new ConfigService())
+        .addKeyedScoped('databaseConnection', 'replica', replicaCallback)
+        .addKeyedTransient(connectionToken, 'reporting', async (_provider) => new ConfigService());
+
+    // Act
+    const bindings = serviceCollection.findAllKeyed(connectionToken);
+
+    // Assert
+    assertEquals([...bindings.keys()], ['primary', 'replica', 'reporting']);
+    assertEquals(bindings.get('replica')?.serviceLifetime, ServiceLifetime.Scoped);
+    assertEquals(
+        serviceCollection.findKeyed('databaseConnection', 'replica').value.serviceFactory,
+        replicaCallback,
+    );
+    assert(!serviceCollection.findKeyed('databaseConnection', 'audit').isPresent);
+    assertEquals([...serviceCollection.keyed.keys()], ['databaseConnection']);
+    assertEquals(serviceCollection.findAll(connectionToken).length, 1);
+    assertEquals(serviceCollection.scoped.size, 0);
+});
+
+Deno.test('DIServiceCollection - decorate throws for non-existing service', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+
+    // Act & Assert
+    assertThrows(
+        () => serviceCollection.decorate('configService', async (inner, _provider) => inner),
+        Error,
+        "Cannot decorate service 'configService', it is not registered",
+    );
+});
+
+Deno.test('DIServiceCollection - addModule applies modules in dependency order', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const appliedModules: string[] = [];
+    const persistenceModule: ServiceModule = {
+        name: 'persistence',
+        register(collection) {
+            appliedModules.push('persistence');
+            collection.addSingleton('dbPool', async (_provider) => new ConfigService());
+        },
+    };
+    const ordersModule: ServiceModule = {
+        name: 'orders',
+        dependsOn: [persistenceModule],
+        register(collection) {
+            appliedModules.push('orders');
+            collection.addScoped('orderRepository', async (_provider) => new ConfigService());
+        },
+    };
+
+    // Act
+    serviceCollection.addModule(ordersModule, persistenceModule);
+
+    // Assert
+    assertEquals(appliedModules, ['persistence', 'orders']);
+    assertEquals(serviceCollection.findModules('dbPool'), ['persistence']);
+    assertEquals(serviceCollection.findModules('orderRepository'), ['orders']);
+});
+
+Deno.test('DIServiceCollection - findModules reports every module that registered a key', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const createModule = (name: string): ServiceModule => ({
+        name,
+        register(collection) {
+            collection.addSingleton('mailer', async (_provider) => new ConfigService());
+        },
+    });
+    serviceCollection.addSingleton('mailer', async (_provider) => new ConfigService());
+
+    // Act
+    serviceCollection.addModule(createModule('notifications'), createModule('testing'));
+
+    // Assert
+    assertEquals(serviceCollection.findModules('mailer'), ['notifications', 'testing']);
+    assertEquals(serviceCollection.findAll('mailer').length, 3);
+    assertEquals(serviceCollection.findModules('unknownService'), []);
+});
+
+Deno.test('DIServiceCollection - addModule undoes the registrations of a failing module', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    let attempts = 0;
+    const ordersModule: ServiceModule = {
+        name: 'orders',
+        register(serviceCollection) {
+            attempts++;
+            serviceCollection
+                .addScoped('orderRepository', async (_provider) => new ConfigService())
+                .remove('configService');
+
+            if (attempts === 1) {
+                throw new Error('Missing connection string');
+            }
+        },
+    };
+    serviceCollection.addSingleton('configService', async (_provider) => new ConfigService());
+
+    // Act
+    assertThrows(
+        () => serviceCollection.addModule(ordersModule),
+        Error,
+        'Missing connection string',
+    );
+    const registeredAfterFailure = serviceCollection.has('orderRepository');
+    const modulesAfterFailure = serviceCollection.findModules('orderRepository');
+    const configAfterFailure = serviceCollection.has('configService');
+    serviceCollection.addModule(ordersModule);
+
+    // Assert
+    assertFalse(registeredAfterFailure);
+    assertEquals(modulesAfterFailure, []);
+    assert(configAfterFailure);
+    assertEquals(serviceCollection.findAll('orderRepository').length, 1);
+    assertEquals(serviceCollection.findModules('orderRepository'), ['orders']);
+});
+
+Deno.test('DIServiceCollection - addModule rejects duplicate and circular modules', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const register = (_collection: ServiceCollection) => {};
+    const ordersModule: ServiceModule = { name: 'orders', register };
+    const billingModule: ServiceModule = { name: 'billing', register };
+    const shippingModule: ServiceModule = { name: 'shipping', dependsOn: [], register };
+    const warehouseModule: ServiceModule = {
+        name: 'warehouse',
+        dependsOn: [shippingModule],
+        register,
+    };
+    shippingModule.dependsOn!.push(warehouseModule);
+    serviceCollection.addModule(ordersModule);
+
+    // Act & Assert
+    assertThrows(
+        () => serviceCollection.addModule(ordersModule),
+        Error,
+        "Module 'orders' is already added",
+    );
+    assertThrows(
+        () => serviceCollection.addModule({ name: 'orders', register }),
+        Error,
+        "Module 'orders' is already added",
+    );
+    assertThrows(
+        () => serviceCollection.addModule(billingModule, billingModule),
+        Error,
+        "Module 'billing' is already added",
+    );
+    assertThrows(
+        () => serviceCollection.addModule(warehouseModule),
+        Error,
+        'Circular module dependency: warehouse -> shipping -> warehouse',
+    );
+});
+
+Deno.test('DIServiceCollection - clone copies registrations and modules independently', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const createCallback: ServiceFactory = async (_provider) => new ConfigService();
+    serviceCollection
+        .addSingleton('configService', createCallback)
+        .addKeyedScoped('databaseConnection', 'replica', createCallback)
+        .addModule({
+            name: 'persistence',
+            register(collection) {
+                collection.addSingleton('dbPool', createCallback);
+            },
+        });
+
+    // Act
+    const clonedCollection = serviceCollection.clone();
+    clonedCollection
+        .addTransient('configService', createCallback)
+        .addKeyedScoped('databaseConnection', 'reporting', createCallback);
+    serviceCollection.remove('dbPool');
+
+    // Assert
+    assertEquals(serviceCollection.findAll('configService').length, 1);
+    assertEquals(clonedCollection.findAll('configService').length, 2);
+    assertEquals([...serviceCollection.findAllKeyed('databaseConnection').keys()], ['replica']);
+    assertEquals(
+        [...clonedCollection.findAllKeyed('databaseConnection').keys()],
+        ['replica', 'reporting'],
+    );
+    assert(clonedCollection.has('dbPool'));
+    assertEquals(clonedCollection.findModules('dbPool'), ['persistence']);
+    assertThrows(
+        () => clonedCollection.addModule({ name: 'persistence', register: () => {} }),
+        Error,
+        "Module 'persistence' is already added",
+    );
+});
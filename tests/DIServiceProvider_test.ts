@@ -6,13 +6,34 @@
  */
 
 import {
+    CircularDependencyException,
     DIServiceCollection,
     DIServiceProvider,
+    DisposalException,
+    Factory,
+    InitializationException,
     Instance,
+    Lazy,
+    ServiceEvent,
     ServiceFactory,
+    ServiceLifetime,
+    ServiceNotFoundException,
     ServiceProvider,
+    ServiceProviderObserver,
+    ServiceToken,
 } from '@domaincrafters/di/mod.ts';
-import { assert, assertEquals, assertNotEquals, assertRejects, assertThrows } from '@std/assert';
+import {
+    assert,
+    assertEquals,
+    assertFalse,
+    assertInstanceOf,
+    assertNotEquals,
+    assertNotStrictEquals,
+    assertRejects,
+    assertStrictEquals,
+    assertStringIncludes,
+    assertThrows,
+} from '@std/assert';
 
 interface ConfigService {
     config: number;
@@ -359,4 +380,1788 @@ Deno.test('DIServiceProvider -  scoped provider executes default disposer when d
     // Assert
     assertEquals(configService.config, 1);
     assertRejects(async () => await scopeProvider.getService<ConfigService>('configService'));
-});
\ No newline at end of file
+});
+Deno.test('DIServiceProvider - resolves a service registered with a token', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const serviceToken = ServiceToken.create<ConfigService>('configService');
+    const configService: ConfigService = { config: 1 };
+    serviceCollection.addSingleton(serviceToken, async (_provider) => configService);
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const serviceOptional = await serviceProvider.getService(serviceToken);
+
+    // Assert
+    assert(serviceOptional.isPresent);
+    assertEquals(serviceOptional.value.config, 1);
+});
+
+Deno.test('DIServiceProvider - resolves a service registered with a token by its string key', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const serviceToken = ServiceToken.create<UserService>('userService');
+    const userService: UserService = { user: 'John Doe' };
+    serviceCollection.addScoped(serviceToken, async (_provider) => userService);
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+
+    // Act
+    const serviceOptional = await scopeProvider.getService<UserService>('userService');
+
+    // Assert
+    assert(serviceOptional.isPresent);
+    assertEquals(serviceOptional.value, userService);
+});
+
+Deno.test('DIServiceProvider - concurrent singleton resolutions run the factory once', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const serviceKey = 'configService';
+    let instanceCount = 0;
+    const serviceFactory: ServiceFactory = async (_provider) => {
+        instanceCount++;
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return { config: instanceCount };
+    };
+
+    serviceCollection.addSingleton(serviceKey, serviceFactory);
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const [serviceOptional1, serviceOptional2] = await Promise.all([
+        serviceProvider.getService<ConfigService>(serviceKey),
+        serviceProvider.getService<ConfigService>(serviceKey),
+    ]);
+
+    // Assert
+    assertEquals(instanceCount, 1);
+    assertStrictEquals(serviceOptional1.value, serviceOptional2.value);
+});
+
+Deno.test('DIServiceProvider - concurrent scoped resolutions run the factory once per scope', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const serviceKey = 'userService';
+    let instanceCount = 0;
+    const serviceFactory: ServiceFactory = async (_provider) => {
+        instanceCount++;
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return { user: 'John Doe' + instanceCount };
+    };
+
+    serviceCollection.addScoped(serviceKey, serviceFactory);
+    const rootProvider = DIServiceProvider.create(serviceCollection);
+    const scopeProvider1 = rootProvider.createScope();
+    const scopeProvider2 = rootProvider.createScope();
+
+    // Act
+    const serviceOptionals = await Promise.all([
+        scopeProvider1.getService<UserService>(serviceKey),
+        scopeProvider1.getService<UserService>(serviceKey),
+        scopeProvider2.getService<UserService>(serviceKey),
+    ]);
+
+    // Assert
+    assertEquals(instanceCount, 2);
+    assertStrictEquals(serviceOptionals[0]!.value, serviceOptionals[1]!.value);
+    assertNotStrictEquals(serviceOptionals[0]!.value, serviceOptionals[2]!.value);
+});
+
+Deno.test('DIServiceProvider - concurrent scoped resolutions waiting on each other throw CircularDependencyException', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addScoped('orderService', async (provider) => {
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            return { payment: await provider.getRequiredService('paymentService') };
+        })
+        .addScoped('paymentService', async (provider) => {
+            await new Promise((resolve) => setTimeout(resolve, 1));
+            return { order: await provider.getRequiredService('orderService') };
+        });
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+
+    // Act
+    const results = await Promise.allSettled([
+        scopeProvider.getService('paymentService'),
+        scopeProvider.getService('orderService'),
+    ]);
+
+    // Assert
+    for (const result of results) {
+        assert(result.status === 'rejected');
+        assertInstanceOf(result.reason, CircularDependencyException);
+    }
+});
+
+Deno.test('DIServiceProvider - disposes a singleton whose factory completes after the provider is disposed', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    let disposedCount = 0;
+    serviceCollection.addSingleton('configService', async (_provider) => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return { config: 1 };
+    }, async () => {
+        disposedCount++;
+    });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+    const resolutions = [
+        serviceProvider.getService('configService'),
+        serviceProvider.getService('configService'),
+    ];
+
+    // Act
+    await serviceProvider.dispose();
+
+    // Assert
+    for (const resolution of resolutions) {
+        await assertRejects(
+            () => resolution,
+            Error,
+            "Service 'configService' was created after the service provider was disposed",
+        );
+    }
+    assertEquals(disposedCount, 1);
+});
+
+Deno.test('DIServiceProvider - failed singleton factory is retried on next resolution', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const serviceKey = 'configService';
+    let attempts = 0;
+    const serviceFactory: ServiceFactory = async (_provider) => {
+        attempts++;
+        if (attempts === 1) {
+            throw new Error('Connection refused');
+        }
+        return { config: attempts };
+    };
+
+    serviceCollection.addSingleton(serviceKey, serviceFactory);
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const results = await Promise.allSettled([
+        serviceProvider.getService<ConfigService>(serviceKey),
+        serviceProvider.getService<ConfigService>(serviceKey),
+    ]);
+    const serviceOptional = await serviceProvider.getService<ConfigService>(serviceKey);
+
+    // Assert
+    assertEquals(results[0]!.status, 'rejected');
+    assertEquals(results[1]!.status, 'rejected');
+    assertEquals(serviceOptional.value.config, 2);
+    assertEquals(attempts, 2);
+});
+
+Deno.test('DIServiceProvider - throws CircularDependencyException on circular singleton dependencies', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('orderService', async (provider) => {
+            return { payment: (await provider.getService('paymentService')).value };
+        })
+        .addSingleton('paymentService', async (provider) => {
+            return { order: (await provider.getService('orderService')).value };
+        });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const error = await assertRejects(
+        () => serviceProvider.getService('orderService'),
+        CircularDependencyException,
+    );
+
+    // Assert
+    assertEquals(
+        error.message,
+        'Circular dependency detected: orderService -> paymentService -> orderService',
+    );
+});
+
+Deno.test('DIServiceProvider - throws CircularDependencyException on circular dependencies within a scope', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addScoped('orderService', async (provider) => {
+            return { payment: (await provider.getService('paymentService')).value };
+        })
+        .addTransient('paymentService', async (provider) => {
+            return { order: (await provider.getService('orderService')).value };
+        });
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+
+    // Act
+    const error = await assertRejects(
+        () => scopeProvider.getService('paymentService'),
+        CircularDependencyException,
+    );
+
+    // Assert
+    assertEquals(
+        error.resolutionPath,
+        ['paymentService', 'orderService', 'paymentService'],
+    );
+});
+
+Deno.test('DIServiceProvider - throws CircularDependencyException when a service depends on itself', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addTransient('loggingService', async (provider) => {
+        return { logger: (await provider.getService('loggingService')).value };
+    });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act & Assert
+    await assertRejects(
+        () => serviceProvider.getService('loggingService'),
+        CircularDependencyException,
+        'loggingService -> loggingService',
+    );
+});
+
+Deno.test('DIServiceProvider - throws CircularDependencyException on circular dependencies resolved concurrently', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('orderService', async (provider) => {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            return { payment: await provider.getRequiredService('paymentService') };
+        })
+        .addSingleton('paymentService', async (provider) => {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            return { order: await provider.getRequiredService('orderService') };
+        });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const results = await Promise.allSettled([
+        serviceProvider.getService('orderService'),
+        serviceProvider.getService('paymentService'),
+    ]);
+
+    // Assert
+    for (const result of results) {
+        assert(result.status === 'rejected');
+        assertInstanceOf(result.reason, CircularDependencyException);
+    }
+    assertEquals(
+        results.map((result) => result.status === 'rejected' && result.reason.resolutionPath),
+        [
+            ['paymentService', 'orderService', 'paymentService'],
+            ['paymentService', 'orderService', 'paymentService'],
+        ],
+    );
+});
+
+Deno.test('DIServiceProvider - provider kept by a factory resolves without tracking after creation', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    let keptProvider: ServiceProvider | undefined;
+    serviceCollection.addTransient('loggingService', async (provider) => {
+        keptProvider = provider;
+        return { log: () => {} };
+    });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+    await serviceProvider.getService('loggingService');
+
+    // Act
+    const serviceOptional = await keptProvider!.getService('loggingService');
+
+    // Assert
+    assert(serviceOptional.isPresent);
+});
+
+Deno.test('DIServiceProvider - getRequiredService returns the service instance', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const configService: ConfigService = { config: 1 };
+    serviceCollection.addSingleton('configService', async (_provider) => configService);
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const service = await serviceProvider.getRequiredService<ConfigService>('configService');
+
+    // Assert
+    assertStrictEquals(service, configService);
+});
+
+Deno.test('DIServiceProvider - getRequiredService throws ServiceNotFoundException when service not found', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+
+    // Act
+    const error = await assertRejects(
+        () => scopeProvider.getRequiredService('nonExistentService'),
+        ServiceNotFoundException,
+    );
+
+    // Assert
+    assertEquals(error.key, 'nonExistentService');
+    assertEquals(error.serviceLifetime, ServiceLifetime.Scoped);
+    assertEquals(
+        error.message,
+        "Service 'nonExistentService' could not be resolved from a Scoped service provider",
+    );
+});
+
+Deno.test('DIServiceProvider - getRequiredService names the services being resolved', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addScoped('orderService', async (provider) => {
+            return { payment: await provider.getRequiredService('paymentService') };
+        })
+        .addScoped('paymentService', async (provider) => {
+            return { gateway: await provider.getRequiredService('paymentGateway') };
+        });
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+
+    // Act
+    const error = await assertRejects(
+        () => scopeProvider.getRequiredService('orderService'),
+        ServiceNotFoundException,
+    );
+
+    // Assert
+    assertEquals(error.key, 'paymentGateway');
+    assertEquals(error.resolutionPath, ['orderService', 'paymentService']);
+    assertStringIncludes(error.message, 'orderService -> paymentService -> paymentGateway');
+});
+
+Deno.test('DIServiceProvider - validate reports the problems of a collection', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addScoped('orderService', async (provider) => ({
+        payment: await provider.getRequiredService('paymentService'),
+    }));
+
+    // Act
+    const problems = await DIServiceProvider.validate(serviceCollection);
+
+    // Assert
+    assertEquals(problems.length, 1);
+    assertEquals(problems[0]!.dependencyKey, 'paymentService');
+});
+
+Deno.test('DIServiceProvider - disposes services in reverse creation order', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const disposedKeys: string[] = [];
+    const recordDisposal = (key: string) => async () => {
+        disposedKeys.push(key);
+    };
+    serviceCollection
+        .addSingleton('databasePool', async (_provider) => ({ pool: 1 }), recordDisposal('databasePool'))
+        .addSingleton('orderRepository', async (provider) => ({
+            pool: await provider.getRequiredService('databasePool'),
+        }), recordDisposal('orderRepository'))
+        .addSingleton('orderService', async (provider) => ({
+            repository: await provider.getRequiredService('orderRepository'),
+        }), recordDisposal('orderService'));
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+    await serviceProvider.getService('orderService');
+
+    // Act
+    await serviceProvider.dispose();
+
+    // Assert
+    assertEquals(disposedKeys, ['orderService', 'orderRepository', 'databasePool']);
+});
+
+Deno.test('DIServiceProvider - disposes every service and aggregates disposer failures', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const disposedKeys: string[] = [];
+    const firstError = new Error('Pool already closed');
+    const secondError = new Error('Stream is locked');
+    serviceCollection
+        .addScoped('databasePool', async (_provider) => ({ pool: 1 }), async () => {
+            throw firstError;
+        })
+        .addScoped('userService', async (_provider) => ({ user: 'John Doe' }), async () => {
+            disposedKeys.push('userService');
+        })
+        .addScoped('fileService', async (_provider) => ({ file: 1 }), async () => {
+            throw secondError;
+        });
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+    await scopeProvider.getService('databasePool');
+    await scopeProvider.getService('userService');
+    await scopeProvider.getService('fileService');
+
+    // Act
+    const error = await assertRejects(() => scopeProvider.dispose(), DisposalException);
+
+    // Assert
+    assertEquals(disposedKeys, ['userService']);
+    assertEquals(error.failures, [
+        { key: 'fileService', error: secondError },
+        { key: 'databasePool', error: firstError },
+    ]);
+    assertEquals(error.errors, [secondError, firstError]);
+    assertStringIncludes(error.message, "'fileService'");
+    assertStringIncludes(error.message, "'databasePool'");
+});
+
+Deno.test('DIServiceProvider - scope disposes the transient instances it created', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const disposedInstances: UserService[] = [];
+    let instanceCount = 0;
+    serviceCollection.addTransient(
+        'userService',
+        async (_provider) => ({ user: 'John Doe' + ++instanceCount }),
+        async (instance: UserService) => {
+            disposedInstances.push(instance);
+        },
+    );
+    const rootProvider = DIServiceProvider.create(serviceCollection);
+    const scopeProvider1 = rootProvider.createScope();
+    const scopeProvider2 = rootProvider.createScope();
+    const instance1 = (await scopeProvider1.getService<UserService>('userService')).value;
+    const instance2 = (await scopeProvider1.getService<UserService>('userService')).value;
+    await scopeProvider2.getService<UserService>('userService');
+
+    // Act
+    await scopeProvider1.dispose();
+
+    // Assert
+    assertEquals(disposedInstances.length, 2);
+    assertStrictEquals(disposedInstances[0], instance2);
+    assertStrictEquals(disposedInstances[1], instance1);
+});
+
+Deno.test('DIServiceProvider - transient instances without a disposer are not tracked', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const disposedKeys: string[] = [];
+    serviceCollection
+        .addTransient('loggingService', async (_provider) => ({ log: () => {} }))
+        .addScoped('userService', async (_provider) => ({ user: 'John Doe' }), async () => {
+            disposedKeys.push('userService');
+        });
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+    await scopeProvider.getService('loggingService');
+    await scopeProvider.getService('userService');
+
+    // Act
+    await scopeProvider.dispose();
+
+    // Assert
+    assertEquals(disposedKeys, ['userService']);
+});
+
+Deno.test('DIServiceProvider - root disposes transient instances created for singletons', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const disposedKeys: string[] = [];
+    serviceCollection
+        .addTransient('httpClient', async (_provider) => ({ client: 1 }), async () => {
+            disposedKeys.push('httpClient');
+        })
+        .addSingleton('paymentGateway', async (provider) => ({
+            client: await provider.getRequiredService('httpClient'),
+        }), async () => {
+            disposedKeys.push('paymentGateway');
+        });
+    const rootProvider = DIServiceProvider.create(serviceCollection);
+    const scopeProvider = rootProvider.createScope();
+    await scopeProvider.getService('paymentGateway');
+
+    // Act
+    await scopeProvider.dispose();
+    const disposedByScope = [...disposedKeys];
+    await rootProvider.dispose();
+
+    // Assert
+    assertEquals(disposedByScope, []);
+    assertEquals(disposedKeys, ['paymentGateway', 'httpClient']);
+});
+
+Deno.test('DIServiceProvider - await using disposes the scope when the block exits', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    let disposerCalled = false;
+    serviceCollection.addScoped('userService', async (_provider) => ({ user: 'John Doe' }), async () => {
+        disposerCalled = true;
+    });
+    const rootProvider = DIServiceProvider.create(serviceCollection);
+    let escapedScope: ServiceProvider | undefined;
+
+    // Act
+    await assertRejects(async () => {
+        await using scopeProvider = rootProvider.createScope();
+        escapedScope = scopeProvider;
+        await scopeProvider.getService('userService');
+        throw new Error('Handler failed');
+    });
+
+    // Assert
+    assert(disposerCalled);
+    assertThrows(() => escapedScope!.createScope());
+});
+
+Deno.test('DIServiceProvider - asyncDispose does nothing on a disposed provider', async () => {
+    // Arrange
+    const serviceProvider = DIServiceProvider.create(DIServiceCollection.create());
+    await serviceProvider.dispose();
+
+    // Act & Assert
+    await serviceProvider[Symbol.asyncDispose]();
+});
+
+Deno.test('DIServiceProvider - disposes async disposable instances without a service disposer', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const disposedKeys: string[] = [];
+    serviceCollection
+        .addSingleton('databasePool', async (_provider) => ({
+            [Symbol.asyncDispose]: async () => {
+                disposedKeys.push('databasePool');
+            },
+        }))
+        .addTransient('fileHandle', async (_provider) => ({
+            [Symbol.dispose]: () => {
+                disposedKeys.push('fileHandle');
+            },
+        }));
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+    await serviceProvider.getService('databasePool');
+    await serviceProvider.getService('fileHandle');
+
+    // Act
+    await serviceProvider.dispose();
+
+    // Assert
+    assertEquals(disposedKeys, ['fileHandle', 'databasePool']);
+});
+
+Deno.test('DIServiceProvider - explicit service disposer replaces disposing the instance', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const disposedBy: string[] = [];
+    serviceCollection.addScoped('databasePool', async (_provider) => ({
+        [Symbol.asyncDispose]: async () => {
+            disposedBy.push('instance');
+        },
+    }), async () => {
+        disposedBy.push('serviceDisposer');
+    });
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+    await scopeProvider.getService('databasePool');
+
+    // Act
+    await scopeProvider.dispose();
+
+    // Assert
+    assertEquals(disposedBy, ['serviceDisposer']);
+});
+
+class OrderRepository {
+    static inject = ['databasePool', 'loggingService'];
+
+    readonly databasePool: ConfigService;
+    readonly logger: UserService;
+
+    constructor(databasePool: ConfigService, logger: UserService) {
+        this.databasePool = databasePool;
+        this.logger = logger;
+    }
+}
+
+Deno.test('DIServiceProvider - resolves a class registration with declared dependencies', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const databasePool: ConfigService = { config: 1 };
+    const logger: UserService = { user: 'logger' };
+    serviceCollection
+        .addSingleton('pool', async (_provider) => databasePool)
+        .addTransient('logger', async (_provider) => logger)
+        .addScopedClass('orderRepository', OrderRepository, ['pool', 'logger']);
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+
+    // Act
+    const repository = await scopeProvider.getRequiredService<OrderRepository>('orderRepository');
+
+    // Assert
+    assert(repository instanceof OrderRepository);
+    assertStrictEquals(repository.databasePool, databasePool);
+    assertStrictEquals(repository.logger, logger);
+});
+
+Deno.test('DIServiceProvider - resolves a class registration with a static inject property', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const repositoryToken = ServiceToken.create<OrderRepository>('orderRepository');
+    serviceCollection
+        .addSingleton('databasePool', async (_provider) => ({ config: 1 }))
+        .addSingleton('loggingService', async (_provider) => ({ user: 'logger' }))
+        .addSingletonClass(repositoryToken, OrderRepository);
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const repository1 = await serviceProvider.getRequiredService(repositoryToken);
+    const repository2 = await serviceProvider.getRequiredService(repositoryToken);
+
+    // Assert
+    assertEquals(repository1.databasePool.config, 1);
+    assertEquals(repository1.logger.user, 'logger');
+    assertStrictEquals(repository1, repository2);
+});
+
+Deno.test('DIServiceProvider - class registration names the constructor argument that cannot be resolved', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('databasePool', async (_provider) => ({ config: 1 }))
+        .addTransientClass('orderRepository', OrderRepository);
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act & Assert
+    await assertRejects(
+        () => serviceProvider.getService('orderRepository'),
+        Error,
+        "Cannot resolve 'loggingService' for constructor argument 1 of OrderRepository",
+    );
+});
+
+Deno.test('DIServiceProvider - resolves a registered instance as is', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const configService: ConfigService = { config: 1 };
+    serviceCollection.addInstance('configService', configService);
+    const rootProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const rootService = await rootProvider.getRequiredService<ConfigService>('configService');
+    const scopedService = await rootProvider.createScope().getRequiredService<ConfigService>(
+        'configService',
+    );
+
+    // Assert
+    assertStrictEquals(rootService, configService);
+    assertStrictEquals(scopedService, configService);
+});
+
+Deno.test('DIServiceProvider - does not dispose a registered instance', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    let disposed = false;
+    const databasePool = {
+        [Symbol.asyncDispose]: async () => {
+            disposed = true;
+        },
+    };
+    serviceCollection.addInstance('databasePool', databasePool);
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+    await serviceProvider.getService('databasePool');
+
+    // Act
+    await serviceProvider.dispose();
+
+    // Assert
+    assert(!disposed);
+});
+
+Deno.test('DIServiceProvider - disposes a registered instance with a disposer', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const configService: ConfigService = { config: 1 };
+    serviceCollection.addInstance('configService', configService, async (instance) => {
+        instance.config = 0;
+    });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+    await serviceProvider.getService('configService');
+
+    // Act
+    await serviceProvider.dispose();
+
+    // Assert
+    assertEquals(configService.config, 0);
+});
+
+Deno.test('DIServiceProvider - getService returns the last registration of a key', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('orderValidator', async (_provider) => ({ user: 'first' }))
+        .addScoped('orderValidator', async (_provider) => ({ user: 'second' }))
+        .addTransient('orderValidator', async (_provider) => ({ user: 'last' }));
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+
+    // Act
+    const service = await scopeProvider.getRequiredService<UserService>('orderValidator');
+
+    // Assert
+    assertEquals(service.user, 'last');
+});
+
+Deno.test('DIServiceProvider - getServices resolves every registration of a key in order', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    let transientCount = 0;
+    serviceCollection
+        .addSingleton('orderPlacedHandler', async (_provider) => ({ user: 'singleton' }))
+        .addScoped('orderPlacedHandler', async (_provider) => ({ user: 'scoped' }))
+        .addTransient('orderPlacedHandler', async (_provider) => ({
+            user: 'transient' + ++transientCount,
+        }));
+    const rootProvider = DIServiceProvider.create(serviceCollection);
+    const scopeProvider = rootProvider.createScope();
+
+    // Act
+    const handlers1 = await scopeProvider.getServices<UserService>('orderPlacedHandler');
+    const handlers2 = await scopeProvider.getServices<UserService>('orderPlacedHandler');
+    const rootHandlers = await rootProvider.getServices<UserService>('orderPlacedHandler');
+
+    // Assert
+    assertEquals(handlers1.map((handler) => handler.user), ['singleton', 'scoped', 'transient1']);
+    assertStrictEquals(handlers1[0], handlers2[0]);
+    assertStrictEquals(handlers1[1], handlers2[1]);
+    assertNotStrictEquals(handlers1[2], handlers2[2]);
+    assertEquals(rootHandlers.map((handler) => handler.user), ['singleton', 'transient3']);
+    assertStrictEquals(rootHandlers[0], handlers1[0]);
+});
+
+Deno.test('DIServiceProvider - getServices returns an empty array when no service is registered', async () => {
+    // Arrange
+    const serviceProvider = DIServiceProvider.create(DIServiceCollection.create());
+
+    // Act
+    const services = await serviceProvider.getServices('orderPlacedHandler');
+
+    // Assert
+    assertEquals(services, []);
+});
+
+Deno.test('DIServiceProvider - getServices keeps an instance per registration of a key', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('orderValidator', async (_provider) => ({ user: 'first' }))
+        .addSingleton('orderValidator', async (_provider) => ({ user: 'second' }));
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const validators = await serviceProvider.getServices<UserService>('orderValidator');
+    const validator = await serviceProvider.getRequiredService<UserService>('orderValidator');
+
+    // Assert
+    assertEquals(validators.map((service) => service.user), ['first', 'second']);
+    assertStrictEquals(validator, validators[1]);
+});
+
+Deno.test('DIServiceProvider - getKeyedService resolves named variants and falls back to the default', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('databaseConnection', async (_provider) => ({ user: 'primary' }))
+        .addKeyedSingleton('databaseConnection', 'replica', async (_provider) => ({
+            user: 'replica',
+        }))
+        .addKeyedScoped('databaseConnection', 'reporting', async (_provider) => ({
+            user: 'reporting',
+        }));
+    const rootProvider = DIServiceProvider.create(serviceCollection);
+    const scopeProvider = rootProvider.createScope();
+
+    // Act
+    const replica1 = await scopeProvider.getKeyedService<UserService>(
+        'databaseConnection',
+        'replica',
+    );
+    const replica2 = await rootProvider.getKeyedService<UserService>(
+        'databaseConnection',
+        'replica',
+    );
+    const reporting = await scopeProvider.getKeyedService<UserService>(
+        'databaseConnection',
+        'reporting',
+    );
+    const fallback = await scopeProvider.getKeyedService<UserService>(
+        'databaseConnection',
+        'audit',
+    );
+    const defaultConnection = await scopeProvider.getRequiredService<UserService>(
+        'databaseConnection',
+    );
+
+    // Assert
+    assertEquals(replica1.value.user, 'replica');
+    assertStrictEquals(replica1.value, replica2.value);
+    assertEquals(reporting.value.user, 'reporting');
+    assertStrictEquals(fallback.value, defaultConnection);
+    assertEquals(defaultConnection.user, 'primary');
+});
+
+Deno.test('DIServiceProvider - getKeyedService returns empty when neither variant nor default is registered', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addKeyedSingleton('databaseConnection', 'replica', async (_provider) => ({
+        user: 'replica',
+    }));
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const reporting = await serviceProvider.getKeyedService('databaseConnection', 'reporting');
+    const defaultConnection = await serviceProvider.getService('databaseConnection');
+
+    // Assert
+    assert(!reporting.isPresent);
+    assert(!defaultConnection.isPresent);
+});
+
+Deno.test('DIServiceProvider - getKeyedService detects circular dependencies between named variants', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addKeyedSingleton('databaseConnection', 'replica', async (provider) => ({
+        user: (await provider.getKeyedService('databaseConnection', 'replica')).value,
+    }));
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act & Assert
+    const error = await assertRejects(
+        () => serviceProvider.getKeyedService('databaseConnection', 'replica'),
+        CircularDependencyException,
+    );
+    assertEquals(error.resolutionPath, [
+        'databaseConnection[replica]',
+        'databaseConnection[replica]',
+    ]);
+});
+
+Deno.test('DIServiceProvider - decorators wrap a service in registration order and keep its lifetime and disposer for the inner instance', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const disposedUsers: string[] = [];
+    serviceCollection
+        .addScoped(
+            'orderRepository',
+            async (_provider) => ({ user: 'postgres' }),
+            async (instance: UserService, _provider) => {
+                disposedUsers.push(instance.user);
+            },
+        )
+        .decorate('orderRepository', async (inner, _provider) => ({
+            user: `caching(${inner.user})`,
+        }))
+        .decorate('orderRepository', async (inner, _provider) => ({
+            user: `logging(${inner.user})`,
+        }));
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+
+    // Act
+    const repository1 = await scopeProvider.getRequiredService<UserService>('orderRepository');
+    const repository2 = await scopeProvider.getRequiredService<UserService>('orderRepository');
+    await scopeProvider.dispose();
+
+    // Assert
+    assertEquals(repository1.user, 'logging(caching(postgres))');
+    assertStrictEquals(repository1, repository2);
+    assertEquals(serviceCollection.scoped.size, 1);
+    assertEquals(disposedUsers, ['postgres']);
+});
+
+Deno.test('DIServiceProvider - decorator disposers run before the inner instance is disposed', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const events: string[] = [];
+    serviceCollection
+        .addSingleton('orderRepository', async (_provider) => ({
+            user: 'postgres',
+            [Symbol.asyncDispose]: async () => {
+                events.push('dispose postgres');
+            },
+        }))
+        .decorate('orderRepository', async (inner, _provider) => ({
+            user: `caching(${inner.user})`,
+        }), async (instance, _provider) => {
+            events.push(`dispose ${instance.user}`);
+        });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+    await serviceProvider.getRequiredService('orderRepository');
+
+    // Act
+    await serviceProvider.dispose();
+
+    // Assert
+    assertEquals(events, ['dispose caching(postgres)', 'dispose postgres']);
+});
+
+Deno.test('DIServiceProvider - decorators resolve their dependencies from the provider', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const userServiceToken = ServiceToken.create<UserService>('userService');
+    serviceCollection
+        .addSingleton('configService', async (_provider) => ({ config: 42 }))
+        .addTransient(userServiceToken, async (_provider) => ({ user: 'user' }))
+        .decorate(userServiceToken, async (inner, provider) => {
+            const configService = await provider.getRequiredService<ConfigService>('configService');
+            return { user: `${inner.user}${configService.config}` };
+        });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const userService = await serviceProvider.getRequiredService(userServiceToken);
+
+    // Assert
+    assertEquals(userService.user, 'user42');
+});
+
+Deno.test('DIServiceProvider - getLazy resolves the service on first access from the originating scope', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    let createCount = 0;
+    serviceCollection.addScoped('userService', async (_provider) => ({
+        user: 'user' + ++createCount,
+    }));
+    const rootProvider = DIServiceProvider.create(serviceCollection);
+    const scopeProvider1 = rootProvider.createScope();
+    const scopeProvider2 = rootProvider.createScope();
+
+    // Act
+    const lazyUserService = scopeProvider1.getLazy<UserService>('userService');
+    const countBeforeAccess = createCount;
+    const lazyUser = await lazyUserService.value();
+    const scopedUser1 = await scopeProvider1.getRequiredService<UserService>('userService');
+    const scopedUser2 = await scopeProvider2.getRequiredService<UserService>('userService');
+
+    // Assert
+    assertEquals(countBeforeAccess, 0);
+    assertStrictEquals(lazyUser, scopedUser1);
+    assertNotStrictEquals(lazyUser, scopedUser2);
+    await assertRejects(
+        () => rootProvider.getLazy('userService').value(),
+        ServiceNotFoundException,
+    );
+});
+
+Deno.test('DIServiceProvider - getLazy fails clearly when the scope was disposed', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addScoped('userService', async (_provider) => ({ user: 'user' }));
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+    const lazyUserService = scopeProvider.getLazy<UserService>('userService');
+
+    // Act
+    await scopeProvider.dispose();
+
+    // Assert
+    await assertRejects(
+        () => lazyUserService.value(),
+        Error,
+        "Cannot resolve lazy service 'userService', the service provider has been disposed",
+    );
+});
+
+class ReportController {
+    static inject = ['configService', Lazy.of('userService')];
+
+    readonly configService: ConfigService;
+    readonly userService: Lazy<UserService>;
+
+    constructor(configService: ConfigService, userService: Lazy<UserService>) {
+        this.configService = configService;
+        this.userService = userService;
+    }
+}
+
+Deno.test('DIServiceProvider - injects a lazy handle into a class registration', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    let userCreateCount = 0;
+    serviceCollection
+        .addSingleton('configService', async (_provider) => ({ config: 1 }))
+        .addScoped('userService', async (_provider) => ({ user: 'user' + ++userCreateCount }))
+        .addScopedClass('reportController', ReportController);
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+
+    // Act
+    const controller = await scopeProvider.getRequiredService<ReportController>('reportController');
+    const countBeforeAccess = userCreateCount;
+    const userService = await controller.userService.value();
+
+    // Assert
+    assertEquals(countBeforeAccess, 0);
+    assertEquals(controller.configService.config, 1);
+    assertStrictEquals(
+        userService,
+        await scopeProvider.getRequiredService<UserService>('userService'),
+    );
+});
+
+interface Order {
+    id: string;
+    tenant: string;
+    user: UserService;
+}
+
+Deno.test('DIServiceProvider - resolves a factory that creates instances from runtime arguments', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const orderFactoryToken = ServiceToken.create<Factory<Order, [string, string]>>('orderFactory');
+    serviceCollection
+        .addScoped('userService', async (_provider) => ({ user: 'user' }))
+        .addFactory(orderFactoryToken, async (provider, id: string, tenant: string) => ({
+            id,
+            tenant,
+            user: await provider.getRequiredService<UserService>('userService'),
+        }));
+    const scopeProvider = DIServiceProvider.create(serviceCollection).createScope();
+
+    // Act
+    const orderFactory = await scopeProvider.getRequiredService(orderFactoryToken);
+    const order1 = await orderFactory('order-1', 'acme');
+    const order2 = await orderFactory('order-2', 'globex');
+
+    // Assert
+    assertEquals(order1.id, 'order-1');
+    assertEquals(order1.tenant, 'acme');
+    assertEquals(order2.id, 'order-2');
+    assertEquals(order2.tenant, 'globex');
+    assertNotStrictEquals(order1, order2);
+    assertStrictEquals(
+        order1.user,
+        await scopeProvider.getRequiredService<UserService>('userService'),
+    );
+});
+
+Deno.test('DIServiceProvider - a factory resolves dependencies from the scope that resolved it', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addScoped('userService', async (_provider) => ({ user: 'user' }))
+        .addFactory('orderFactory', async (provider, id: string) => ({
+            id,
+            tenant: 'acme',
+            user: await provider.getRequiredService<UserService>('userService'),
+        }));
+    const rootProvider = DIServiceProvider.create(serviceCollection);
+    const scopeProvider1 = rootProvider.createScope();
+    const scopeProvider2 = rootProvider.createScope();
+
+    // Act
+    const orderFactory1 = await scopeProvider1.getRequiredService<Factory<Order, [string]>>(
+        'orderFactory',
+    );
+    const orderFactory2 = await scopeProvider2.getRequiredService<Factory<Order, [string]>>(
+        'orderFactory',
+    );
+    const order1 = await orderFactory1('order-1');
+    const order2 = await orderFactory2('order-2');
+    const rootOrderFactory = await rootProvider.getRequiredService<Factory<Order, [string]>>(
+        'orderFactory',
+    );
+
+    // Assert
+    assertNotStrictEquals(order1.user, order2.user);
+    await assertRejects(() => rootOrderFactory('order-3'), ServiceNotFoundException);
+});
+
+Deno.test('DIServiceProvider - a child resolves its own registrations first and falls back to the parent', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => ({ config: 1 }))
+        .addSingleton('userService', async (_provider) => ({ user: 'parent' }));
+    const parentProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const childProvider = parentProvider.createChild((childCollection) => {
+        childCollection.addSingleton('configService', async (_provider) => ({ config: 2 }));
+    });
+    const childConfig = await childProvider.getRequiredService<ConfigService>('configService');
+    const parentConfig = await parentProvider.getRequiredService<ConfigService>('configService');
+    const childUser = await childProvider.getRequiredService<UserService>('userService');
+    const parentUser = await parentProvider.getRequiredService<UserService>('userService');
+
+    // Assert
+    assertEquals(childConfig.config, 2);
+    assertEquals(parentConfig.config, 1);
+    assertStrictEquals(childUser, parentUser);
+});
+
+Deno.test('DIServiceProvider - scoped services of the parent use the overrides of the child', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => ({ config: 1 }))
+        .addScoped('userService', async (provider) => {
+            const configService = await provider.getRequiredService<ConfigService>('configService');
+            return { user: 'config' + configService.config };
+        });
+    const parentProvider = DIServiceProvider.create(serviceCollection);
+    const childProvider = parentProvider.createChild((childCollection) => {
+        childCollection.addSingleton('configService', async (_provider) => ({ config: 2 }));
+    });
+
+    // Act
+    const childUser = await childProvider.createScope().getRequiredService<UserService>(
+        'userService',
+    );
+    const parentUser = await parentProvider.createScope().getRequiredService<UserService>(
+        'userService',
+    );
+
+    // Assert
+    assertEquals(childUser.user, 'config2');
+    assertEquals(parentUser.user, 'config1');
+});
+
+Deno.test('DIServiceProvider - each layer disposes the singletons it registered', async () => {
+    // Arrange
+    const disposedServices: string[] = [];
+    const disposer = async (instance: UserService, _provider: ServiceProvider) => {
+        disposedServices.push(instance.user);
+    };
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addSingleton(
+        'parentService',
+        async (_provider) => ({ user: 'parent' }),
+        disposer,
+    );
+    const parentProvider = DIServiceProvider.create(serviceCollection);
+    const childProvider = parentProvider.createChild((childCollection) => {
+        childCollection.addSingleton(
+            'childService',
+            async (_provider) => ({ user: 'child' }),
+            disposer,
+        );
+    });
+    await childProvider.getRequiredService('parentService');
+    await childProvider.getRequiredService('childService');
+
+    // Act
+    await childProvider.dispose();
+    const disposedByChild = [...disposedServices];
+    await parentProvider.dispose();
+
+    // Assert
+    assertEquals(disposedByChild, ['child']);
+    assertEquals(disposedServices, ['child', 'parent']);
+});
+
+Deno.test('DIServiceProvider - resolves values provided to a scope only inside that scope', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addScoped('userService', async (provider) => ({
+        user: await provider.getRequiredService<string>('currentUser'),
+    }));
+    const rootProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const requestScope1 = rootProvider.createScope({ values: { currentUser: 'alice' } });
+    const requestScope2 = rootProvider.createScope().provide('currentUser', 'bob');
+    const userService1 = await requestScope1.getRequiredService<UserService>('userService');
+    const userService2 = await requestScope2.getRequiredService<UserService>('userService');
+
+    // Assert
+    assertEquals(userService1.user, 'alice');
+    assertEquals(userService2.user, 'bob');
+    assertEquals(await requestScope1.getServices<string>('currentUser'), ['alice']);
+    assert(!(await rootProvider.getService('currentUser')).isPresent);
+    assert(!(await rootProvider.createScope().getService('currentUser')).isPresent);
+});
+
+Deno.test('DIServiceProvider - values provided to a scope do not leak into singletons', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addSingleton('userService', async (provider) => ({
+        user: (await provider.getService<string>('currentUser')).isPresent ? 'leaked' : 'none',
+    }));
+    const requestScope = DIServiceProvider.create(serviceCollection).createScope();
+    requestScope.provide('currentUser', 'alice');
+
+    // Act
+    const userService = await requestScope.getRequiredService<UserService>('userService');
+
+    // Assert
+    assertEquals(userService.user, 'none');
+});
+
+Deno.test('DIServiceProvider - values provided to a scope are not disposed and reach its children', async () => {
+    // Arrange
+    let disposeCount = 0;
+    const transaction = {
+        [Symbol.asyncDispose]: async () => {
+            disposeCount++;
+        },
+    };
+    const requestScope = DIServiceProvider.create(DIServiceCollection.create()).createScope();
+    requestScope.provide('transaction', transaction);
+    const childScope = requestScope.createChild((_childCollection) => {}).createScope();
+
+    // Act
+    const childTransaction = await childScope.getRequiredService('transaction');
+    await childScope.dispose();
+    await requestScope.dispose();
+
+    // Assert
+    assertStrictEquals(childTransaction, transaction);
+    assertEquals(disposeCount, 0);
+});
+
+Deno.test('DIServiceProvider - values provided to a scope reach the scopes of its children only', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addScoped('userService', async (provider) => ({
+        user: (await provider.getService<string>('currentUser')).value ?? 'none',
+    }));
+    const requestScope = DIServiceProvider.create(serviceCollection).createScope();
+    requestScope.provide('currentUser', 'alice');
+    const childProvider = requestScope.createChild((_childCollection) => {});
+
+    // Act
+    const childUser = await childProvider.getService<string>('currentUser');
+    const childUserService = await childProvider.getService<UserService>('userService');
+    const scopeUserService = await childProvider.createScope().getRequiredService<UserService>(
+        'userService',
+    );
+
+    // Assert
+    assertFalse(childUser.isPresent);
+    assertFalse(childUserService.isPresent);
+    assertEquals(scopeUserService.user, 'alice');
+});
+
+Deno.test('DIServiceProvider - provide throws for a root provider', () => {
+    // Arrange
+    const serviceProvider = DIServiceProvider.create(DIServiceCollection.create());
+
+    // Act & Assert
+    assertThrows(
+        () => serviceProvider.provide('currentUser', 'alice'),
+        Error,
+        "Cannot provide 'currentUser' to a root service provider, values can only be provided to a scope",
+    );
+});
+
+Deno.test('DIServiceProvider - a nested scope shares the scoped instances of its parent scope', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    let unitOfWorkCount = 0;
+    serviceCollection
+        .addScoped('userService', async (_provider) => ({ user: 'request' }))
+        .addScoped(
+            'unitOfWork',
+            async (_provider) => ({ user: 'unitOfWork' + ++unitOfWorkCount }),
+            undefined,
+            { shareWithNestedScopes: false },
+        );
+    const requestScope = DIServiceProvider.create(serviceCollection).createScope({
+        values: { currentUser: 'alice' },
+    });
+
+    // Act
+    const nestedScope1 = requestScope.createScope({ nested: true });
+    const nestedScope2 = nestedScope1.createScope({ nested: true });
+    const independentScope = requestScope.createScope();
+    const requestUser = await requestScope.getRequiredService<UserService>('userService');
+    const requestUnitOfWork = await requestScope.getRequiredService<UserService>('unitOfWork');
+    const nestedUser = await nestedScope2.getRequiredService<UserService>('userService');
+    const nestedUnitOfWork1 = await nestedScope1.getRequiredService<UserService>('unitOfWork');
+    const nestedUnitOfWork2 = await nestedScope2.getRequiredService<UserService>('unitOfWork');
+    const independentUser = await independentScope.getRequiredService<UserService>('userService');
+
+    // Assert
+    assertStrictEquals(nestedUser, requestUser);
+    assertNotStrictEquals(independentUser, requestUser);
+    assertEquals(
+        [requestUnitOfWork.user, nestedUnitOfWork1.user, nestedUnitOfWork2.user],
+        ['unitOfWork1', 'unitOfWork2', 'unitOfWork3'],
+    );
+    assertEquals(await nestedScope2.getRequiredService('currentUser'), 'alice');
+    assert(!(await independentScope.getService('currentUser')).isPresent);
+});
+
+Deno.test('DIServiceProvider - shared scoped instances are disposed by the scope that owns them', async () => {
+    // Arrange
+    const disposedServices: string[] = [];
+    const disposer = async (instance: UserService, _provider: ServiceProvider) => {
+        disposedServices.push(instance.user);
+    };
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addScoped('userService', async (_provider) => ({ user: 'request' }), disposer)
+        .addScoped('unitOfWork', async (_provider) => ({ user: 'unitOfWork' }), disposer, {
+            shareWithNestedScopes: false,
+        });
+    const requestScope = DIServiceProvider.create(serviceCollection).createScope();
+    const nestedScope = requestScope.createScope({ nested: true });
+    await nestedScope.getRequiredService('userService');
+    await nestedScope.getRequiredService('unitOfWork');
+
+    // Act
+    await nestedScope.dispose();
+    const disposedByNestedScope = [...disposedServices];
+    await requestScope.dispose();
+
+    // Assert
+    assertEquals(disposedByNestedScope, ['unitOfWork']);
+    assertEquals(disposedServices, ['unitOfWork', 'request']);
+});
+
+Deno.test('DIServiceProvider - create takes a snapshot of the service collection', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addSingleton('configService', async (_provider) => ({ config: 1 }));
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+    const scopeProvider = serviceProvider.createScope();
+
+    // Act
+    serviceCollection
+        .addSingleton('configService', async (_provider) => ({ config: 2 }))
+        .addScoped('userService', async (_provider) => ({ user: 'user' }));
+
+    // Assert
+    const configService = await serviceProvider.getRequiredService<ConfigService>('configService');
+    assertEquals(configService.config, 1);
+    assert(!(await scopeProvider.getService('userService')).isPresent);
+    assert(!(await serviceProvider.createScope().getService('userService')).isPresent);
+});
+
+Deno.test('DIServiceProvider - getDependencyGraph includes declared class dependencies', () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => ({ config: 1 }))
+        .addScoped('userService', async (_provider) => ({ user: 'user' }))
+        .addScopedClass('reportController', ReportController);
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const dependencyGraph = serviceProvider.getDependencyGraph();
+
+    // Assert
+    assertEquals(dependencyGraph.nodes, [
+        { key: 'configService', lifetime: ServiceLifetime.Singleton },
+        { key: 'userService', lifetime: ServiceLifetime.Scoped },
+        { key: 'reportController', lifetime: ServiceLifetime.Scoped },
+    ]);
+    assertEquals(dependencyGraph.edges, [
+        { from: 'reportController', to: 'configService', lifetimeViolation: false },
+        { from: 'reportController', to: 'userService', lifetimeViolation: false },
+    ]);
+});
+
+Deno.test('DIServiceProvider - getDependencyGraph includes dependencies resolved by factories', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addScoped('userService', async (_provider) => ({ user: 'user' }))
+        .addSingleton('configService', async (provider) => {
+            await provider.getService('userService');
+            return { config: 1 };
+        })
+        .addKeyedScoped('userService', 'admin', async (provider) => {
+            await provider.getService('configService');
+            return { user: 'admin' };
+        });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+    await serviceProvider.createScope().getKeyedService('userService', 'admin');
+
+    // Act
+    const dependencyGraph = serviceProvider.getDependencyGraph();
+
+    // Assert
+    assertEquals(dependencyGraph.nodes.at(-1), {
+        key: 'userService[admin]',
+        lifetime: ServiceLifetime.Scoped,
+    });
+    assertEquals(dependencyGraph.edges, [
+        { from: 'userService[admin]', to: 'configService', lifetimeViolation: false },
+        { from: 'configService', to: 'userService', lifetimeViolation: true },
+    ]);
+});
+
+Deno.test('DIServiceProvider - getDependencyGraph of a child includes its parent services', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addSingleton('configService', async (_provider) => ({ config: 1 }));
+    const childProvider = DIServiceProvider.create(serviceCollection).createChild(
+        (childServiceCollection) => {
+            childServiceCollection.addTransient('userService', async (provider) => {
+                await provider.getRequiredService('configService');
+                return { user: 'user' };
+            });
+        },
+    );
+    await childProvider.getRequiredService('userService');
+
+    // Act
+    const dependencyGraph = childProvider.getDependencyGraph();
+
+    // Assert
+    assertEquals(dependencyGraph.nodes, [
+        { key: 'userService', lifetime: ServiceLifetime.Transient },
+        { key: 'configService', lifetime: ServiceLifetime.Singleton },
+    ]);
+    assertEquals(dependencyGraph.edges, [
+        { from: 'userService', to: 'configService', lifetimeViolation: false },
+    ]);
+});
+
+function createRecordingObserver(events: string[]): ServiceProviderObserver {
+    const record = (hook: string) => (event: ServiceEvent) => {
+        events.push(`${hook} ${event.key} ${event.lifetime} ${event.parentKey ?? '-'}`);
+    };
+
+    return {
+        onResolving: record('onResolving'),
+        onCreated: record('onCreated'),
+        onResolved: record('onResolved'),
+        onDisposing: record('onDisposing'),
+        onDisposed: record('onDisposed'),
+        onError: record('onError'),
+    };
+}
+
+Deno.test('DIServiceProvider - notifies observers of resolutions and disposals', async () => {
+    // Arrange
+    const events: string[] = [];
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => ({ config: 1 }))
+        .addScoped('userService', async (provider) => {
+            await provider.getRequiredService('configService');
+            return { user: 'user' };
+        }, async (_instance, _provider) => {});
+    const serviceProvider = DIServiceProvider.create(serviceCollection, {
+        observers: [createRecordingObserver(events)],
+    });
+    const scopeProvider = serviceProvider.createScope();
+
+    // Act
+    await scopeProvider.getRequiredService('userService');
+    await scopeProvider.getRequiredService('userService');
+    await scopeProvider.dispose();
+
+    // Assert
+    assertEquals(events, [
+        'onResolving userService Scoped -',
+        'onResolving configService Singleton userService',
+        'onCreated configService Singleton userService',
+        'onResolved configService Singleton userService',
+        'onCreated userService Scoped -',
+        'onResolved userService Scoped -',
+        'onResolving userService Scoped -',
+        'onResolved userService Scoped -',
+        'onDisposing userService Scoped -',
+        'onDisposed userService Scoped -',
+    ]);
+});
+
+Deno.test('DIServiceProvider - observer events carry the scope id and duration', async () => {
+    // Arrange
+    const createdEvents: ServiceEvent[] = [];
+    const resolvedEvents: ServiceEvent[] = [];
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => ({ config: 1 }))
+        .addScoped('userService', async (_provider) => ({ user: 'user' }));
+    const serviceProvider = DIServiceProvider.create(serviceCollection, {
+        observers: [{
+            onCreated: (event) => createdEvents.push(event),
+            onResolved: (event) => resolvedEvents.push(event),
+        }],
+    });
+    const scopeProvider1 = serviceProvider.createScope();
+    const scopeProvider2 = serviceProvider.createScope();
+
+    // Act
+    await scopeProvider1.getRequiredService('configService');
+    await scopeProvider1.getRequiredService('userService');
+    await scopeProvider2.getRequiredService('userService');
+
+    // Assert
+    const [configCreatedIn, userCreatedIn1, userCreatedIn2] = createdEvents.map((event) =>
+        event.scopeId
+    );
+    const [configResolvedIn, userResolvedIn1] = resolvedEvents.map((event) => event.scopeId);
+    assertNotEquals(configCreatedIn, configResolvedIn);
+    assertEquals(userCreatedIn1, userResolvedIn1);
+    assertNotEquals(userCreatedIn1, userCreatedIn2);
+    assert(resolvedEvents.every((event) => event.duration !== undefined && event.duration >= 0));
+});
+
+Deno.test('DIServiceProvider - notifies observers of failing factories and disposers', async () => {
+    // Arrange
+    const events: string[] = [];
+    const errors: unknown[] = [];
+    const factoryError = new Error('Connection refused');
+    const disposerError = new Error('Already closed');
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => {
+            throw factoryError;
+        })
+        .addSingleton('userService', async (provider) => {
+            await provider.getRequiredService('configService');
+            return { user: 'user' };
+        })
+        .addSingleton('loggingService', async (_provider) => ({ user: 'logger' }), async () => {
+            throw disposerError;
+        });
+    const serviceProvider = DIServiceProvider.create(serviceCollection, {
+        observers: [createRecordingObserver(events), {
+            onError: (event) => errors.push(event.error),
+        }],
+    });
+    await serviceProvider.getRequiredService('loggingService');
+    events.length = 0;
+
+    // Act
+    await assertRejects(() => serviceProvider.getRequiredService('userService'));
+    await assertRejects(() => serviceProvider.dispose(), DisposalException);
+
+    // Assert
+    assertEquals(events, [
+        'onResolving userService Singleton -',
+        'onResolving configService Singleton userService',
+        'onError configService Singleton userService',
+        'onError userService Singleton -',
+        'onDisposing loggingService Singleton -',
+        'onError loggingService Singleton -',
+    ]);
+    assertEquals(errors, [factoryError, factoryError, disposerError]);
+});
+
+Deno.test('DIServiceProvider - ignores observers that throw while resolving and disposing', async () => {
+    // Arrange
+    const disposed: string[] = [];
+    let instanceCount = 0;
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => {
+            instanceCount++;
+            return { config: instanceCount };
+        }, async () => {
+            disposed.push('configService');
+        })
+        .addSingleton('loggingService', async (_provider) => ({ user: 'logger' }), async () => {
+            disposed.push('loggingService');
+        });
+    const throwingObserver = () => {
+        throw new Error('Log sink unavailable');
+    };
+    const serviceProvider = DIServiceProvider.create(serviceCollection, {
+        observers: [{
+            onResolving: throwingObserver,
+            onCreated: throwingObserver,
+            onResolved: throwingObserver,
+            onDisposing: throwingObserver,
+            onDisposed: throwingObserver,
+        }],
+    });
+
+    // Act
+    const configService = await serviceProvider.getRequiredService<ConfigService>('configService');
+    await serviceProvider.getRequiredService('configService');
+    await serviceProvider.getRequiredService('loggingService');
+    await serviceProvider.dispose();
+
+    // Assert
+    assertEquals(configService.config, 1);
+    assertEquals(instanceCount, 1);
+    assertEquals(disposed, ['loggingService', 'configService']);
+});
+
+Deno.test('DIServiceProvider - getHostedServices returns an instance for every hosted registration', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const hostedService = { start: () => Promise.resolve(), stop: () => Promise.resolve() };
+    serviceCollection
+        .addHostedService('worker', async (_provider) => ({ ...hostedService }))
+        .addSingleton('configService', async (_provider) => ({ config: 1 }))
+        .addHostedService('worker', async (_provider) => ({ ...hostedService }))
+        .addTransient('worker', async (_provider) => ({ ...hostedService }));
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+    assert(serviceProvider instanceof DIServiceProvider);
+
+    // Act
+    const hostedServices = await serviceProvider.getHostedServices();
+
+    // Assert
+    assertEquals(hostedServices.map(([key]) => key), ['worker', 'worker']);
+    assertNotStrictEquals(hostedServices[0]![1], hostedServices[1]![1]);
+});
+
+Deno.test('DIServiceProvider - initialize creates singletons and starts them in dependency order', async () => {
+    // Arrange
+    const started: string[] = [];
+    let configCreateCount = 0;
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('userService', async (provider) => {
+            await provider.getRequiredService('configService');
+            return { user: 'user' };
+        }, undefined, {
+            onStart: async (_userService, _provider) => {
+                started.push('userService');
+            },
+        })
+        .addSingleton<ConfigService>('configService', async (_provider) => {
+            return { config: ++configCreateCount };
+        }, undefined, {
+            onStart: async (configService, _provider) => {
+                started.push(`configService ${configService.config}`);
+            },
+        })
+        .addScoped('unitOfWork', async (_provider) => ({ user: 'unitOfWork' }));
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    await serviceProvider.initialize();
+    await serviceProvider.initialize();
+
+    // Assert
+    assertEquals(configCreateCount, 1);
+    assertEquals(started, ['configService 1', 'userService']);
+});
+
+Deno.test('DIServiceProvider - initialize with eagerOnly creates eager singletons only', async () => {
+    // Arrange
+    const created: string[] = [];
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => {
+            created.push('configService');
+            return { config: 1 };
+        })
+        .addSingleton('loggingService', async (_provider) => {
+            created.push('loggingService');
+            return { user: 'logger' };
+        })
+        .addKeyedSingleton('userService', 'admin', async (provider) => {
+            created.push('userService[admin]');
+            await provider.getRequiredService('configService');
+            return { user: 'admin' };
+        }, undefined, { eager: true });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    await serviceProvider.initialize({ eagerOnly: true });
+
+    // Assert
+    assertEquals(created, ['userService[admin]', 'configService']);
+});
+
+Deno.test('DIServiceProvider - initialize creates singletons of a key whose last registration is scoped', async () => {
+    // Arrange
+    const created: string[] = [];
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => {
+            created.push('singleton configService');
+            return { config: 1 };
+        })
+        .addScoped('configService', async (_provider) => {
+            created.push('scoped configService');
+            return { config: 2 };
+        });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    await serviceProvider.initialize();
+
+    // Assert
+    assertEquals(created, ['singleton configService']);
+});
+
+Deno.test('DIServiceProvider - initialize reports every failing singleton before starting any', async () => {
+    // Arrange
+    let startCount = 0;
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => {
+            throw new Error('Missing DATABASE_URL');
+        })
+        .addSingleton('loggingService', async (_provider) => ({ user: 'logger' }), undefined, {
+            onStart: async () => {
+                startCount++;
+            },
+        })
+        .addSingleton('userService', async (provider) => {
+            await provider.getRequiredService('paymentService');
+            return { user: 'user' };
+        });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const error = await assertRejects(
+        () => serviceProvider.initialize(),
+        InitializationException,
+    );
+
+    // Assert
+    assertEquals(error.failures.map((failure) => failure.key), ['configService', 'userService']);
+    assertStringIncludes(error.message, 'Missing DATABASE_URL');
+    assertEquals(startCount, 0);
+});
+
+Deno.test('DIServiceProvider - initialize stops at the first failing start hook', async () => {
+    // Arrange
+    const startError = new Error('Connection refused');
+    let userStarted = false;
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addInstance<ConfigService>('configService', { config: 1 }, undefined, {
+            onStart: async () => {
+                throw startError;
+            },
+        })
+        .addSingleton('userService', async (_provider) => ({ user: 'user' }), undefined, {
+            onStart: async () => {
+                userStarted = true;
+            },
+        });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+
+    // Act
+    const error = await assertRejects(
+        () => serviceProvider.initialize(),
+        InitializationException,
+    );
+
+    // Assert
+    assertEquals(error.failures, [{ key: 'configService', error: startError }]);
+    assertFalse(userStarted);
+});
+
+Deno.test('DIServiceProvider - initialize runs a failed start hook again', async () => {
+    // Arrange
+    let attempts = 0;
+    const serviceCollection = DIServiceCollection.create();
+    const onStart = async () => {
+        attempts++;
+
+        if (attempts === 1) {
+            throw new Error('Connection refused');
+        }
+    };
+    const configFactory: ServiceFactory = async (_provider) => ({ config: 1 });
+    serviceCollection.addSingleton('configService', configFactory, undefined, { onStart });
+    const serviceProvider = DIServiceProvider.create(serviceCollection);
+    await assertRejects(() => serviceProvider.initialize(), InitializationException);
+
+    // Act
+    await serviceProvider.initialize();
+    await serviceProvider.initialize();
+
+    // Assert
+    assertEquals(attempts, 2);
+});
+
+Deno.test('DIServiceProvider - initialize throws for a scope', async () => {
+    // Arrange
+    const scopeProvider = DIServiceProvider.create(DIServiceCollection.create()).createScope();
+
+    // Act & Assert
+    await assertRejects(
+        () => scopeProvider.initialize(),
+        Error,
+        'Cannot initialize a scope, only a root service provider creates singletons',
+    );
+});
@@ -0,0 +1,191 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import {
+    DIServiceCollection,
+    DIServiceValidator,
+    ServiceValidationProblemType,
+} from '@domaincrafters/di/mod.ts';
+import { assert, assertEquals } from '@std/assert';
+
+Deno.test('DIServiceValidator - returns no problems for a valid collection', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('configService', async (_provider) => ({ config: 1 }))
+        .addScoped('userService', async (provider) => ({
+            config: await provider.getRequiredService('configService'),
+        }))
+        .addTransient('loggingService', async (provider) => ({
+            user: await provider.getRequiredService('userService'),
+        }));
+
+    // Act
+    const problems = await DIServiceValidator.create(serviceCollection).validate();
+
+    // Assert
+    assertEquals(problems, []);
+});
+
+Deno.test('DIServiceValidator - reports missing dependencies', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addScoped('orderService', async (provider) => ({
+            payment: await provider.getRequiredService('paymentService'),
+        }))
+        .addTransient('loggingService', async (provider) => ({
+            writer: await provider.getService('logWriter'),
+        }));
+
+    // Act
+    const problems = await DIServiceValidator.create(serviceCollection).validate();
+
+    // Assert
+    assertEquals(problems.length, 2);
+    assertEquals(problems[0]!.type, ServiceValidationProblemType.MissingDependency);
+    assertEquals(problems[0]!.key, 'orderService');
+    assertEquals(problems[0]!.dependencyKey, 'paymentService');
+    assertEquals(problems[1]!.type, ServiceValidationProblemType.MissingDependency);
+    assertEquals(problems[1]!.key, 'loggingService');
+    assertEquals(problems[1]!.dependencyKey, 'logWriter');
+});
+
+Deno.test('DIServiceValidator - reports circular dependencies', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addSingleton('orderService', async (provider) => ({
+            payment: await provider.getRequiredService('paymentService'),
+        }))
+        .addSingleton('paymentService', async (provider) => ({
+            order: await provider.getRequiredService('orderService'),
+        }));
+
+    // Act
+    const problems = await DIServiceValidator.create(serviceCollection).validate();
+
+    // Assert
+    assertEquals(problems.length, 2);
+    assert(
+        problems.every((problem) => problem.type === ServiceValidationProblemType.CircularDependency),
+    );
+    assertEquals(problems[0]!.resolutionPath, ['orderService', 'paymentService', 'orderService']);
+});
+
+Deno.test('DIServiceValidator - reports captive dependencies of singletons on scoped services', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addScoped('userContext', async (_provider) => ({ user: 'John Doe' }))
+        .addSingleton('cacheService', async (provider) => ({
+            context: await provider.getService('userContext'),
+        }));
+
+    // Act
+    const problems = await DIServiceValidator.create(serviceCollection).validate();
+
+    // Assert
+    assertEquals(problems.length, 1);
+    assertEquals(problems[0]!.type, ServiceValidationProblemType.CaptiveDependency);
+    assertEquals(problems[0]!.key, 'cacheService');
+    assertEquals(problems[0]!.dependencyKey, 'userContext');
+});
+
+Deno.test('DIServiceValidator - reports failing factories', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const error = new Error('Connection refused');
+    serviceCollection.addSingleton('databasePool', async (_provider) => {
+        throw error;
+    });
+
+    // Act
+    const problems = await DIServiceValidator.create(serviceCollection).validate();
+
+    // Assert
+    assertEquals(problems.length, 1);
+    assertEquals(problems[0]!.type, ServiceValidationProblemType.FactoryFailure);
+    assertEquals(problems[0]!.key, 'databasePool');
+    assertEquals(problems[0]!.error, error);
+});
+
+Deno.test('DIServiceValidator - disposes the instances created during validation', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    const disposedKeys: string[] = [];
+    serviceCollection
+        .addSingleton('configService', async (_provider) => ({ config: 1 }), async () => {
+            disposedKeys.push('configService');
+        })
+        .addScoped('userService', async (_provider) => ({ user: 'John Doe' }), async () => {
+            disposedKeys.push('userService');
+        });
+
+    // Act
+    await DIServiceValidator.create(serviceCollection).validate();
+
+    // Assert
+    assertEquals(disposedKeys, ['userService', 'configService']);
+});
+
+Deno.test('DIServiceValidator - validates every registration of a key', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addScoped('orderPlacedHandler', async (provider) => ({
+            mailer: await provider.getRequiredService('mailer'),
+        }))
+        .addScoped('orderPlacedHandler', async (_provider) => ({ handle: () => {} }));
+
+    // Act
+    const problems = await DIServiceValidator.create(serviceCollection).validate();
+
+    // Assert
+    assertEquals(problems.length, 1);
+    assertEquals(problems[0]!.dependencyKey, 'mailer');
+});
+
+Deno.test('DIServiceValidator - reports missing dependencies of named variants', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection.addKeyedSingleton('databaseConnection', 'replica', async (provider) => ({
+        config: (await provider.getService('replicaConfig')).value,
+    }));
+
+    // Act
+    const problems = await DIServiceValidator.create(serviceCollection).validate();
+
+    // Assert
+    assertEquals(problems.length, 1);
+    assertEquals(problems[0]!.type, ServiceValidationProblemType.MissingDependency);
+    assertEquals(problems[0]!.key, 'databaseConnection[replica]');
+    assertEquals(problems[0]!.dependencyKey, 'replicaConfig');
+});
+
+Deno.test('DIServiceValidator - resolves values provided to scopes from the given sample values', async () => {
+    // Arrange
+    const serviceCollection = DIServiceCollection.create();
+    serviceCollection
+        .addScoped('orderService', async (provider) => ({
+            user: await provider.getRequiredService('currentUser'),
+        }))
+        .addSingleton('auditLog', async (provider) => ({
+            user: (await provider.getService('currentUser')).value,
+        }));
+
+    // Act
+    const problems = await DIServiceValidator.create(serviceCollection).validate({
+        currentUser: { id: 'validation' },
+    });
+
+    // Assert
+    assertEquals(problems.length, 1);
+    assertEquals(problems[0]!.type, ServiceValidationProblemType.MissingDependency);
+    assertEquals(problems[0]!.key, 'auditLog');
+    assertEquals(problems[0]!.dependencyKey, 'currentUser');
+});
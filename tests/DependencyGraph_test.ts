@@ -0,0 +1,133 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { DependencyGraph, ServiceLifetime } from '@domaincrafters/di/mod.ts';
+import { assert, assertEquals } from '@std/assert';
+
+Deno.test('DependencyGraph - create marks a singleton depending on a scoped service', () => {
+    // Arrange
+    const nodes = [
+        { key: 'orderCache', lifetime: ServiceLifetime.Singleton },
+        { key: 'orderService', lifetime: ServiceLifetime.Scoped },
+        { key: 'unitOfWork', lifetime: ServiceLifetime.Scoped },
+    ];
+
+    // Act
+    const dependencyGraph = DependencyGraph.create(nodes, [
+        { from: 'orderCache', to: 'unitOfWork' },
+        { from: 'orderService', to: 'unitOfWork' },
+    ]);
+
+    // Assert
+    assertEquals(dependencyGraph.edges, [
+        { from: 'orderCache', to: 'unitOfWork', lifetimeViolation: true },
+        { from: 'orderService', to: 'unitOfWork', lifetimeViolation: false },
+    ]);
+});
+
+Deno.test('DependencyGraph - create ignores duplicate dependencies and adds unknown services', () => {
+    // Arrange
+    const nodes = [{ key: 'orderService', lifetime: ServiceLifetime.Scoped }];
+
+    // Act
+    const dependencyGraph = DependencyGraph.create(nodes, [
+        { from: 'orderService', to: 'paymentService' },
+        { from: 'orderService', to: 'paymentService' },
+    ]);
+
+    // Assert
+    assertEquals(dependencyGraph.nodes, [
+        { key: 'orderService', lifetime: ServiceLifetime.Scoped },
+        { key: 'paymentService' },
+    ]);
+    assertEquals(dependencyGraph.edges.length, 1);
+});
+
+Deno.test('DependencyGraph - toJSON exports the nodes and edges', () => {
+    // Arrange
+    const dependencyGraph = DependencyGraph.create(
+        [{ key: 'orderService', lifetime: ServiceLifetime.Scoped }],
+        [{ from: 'orderService', to: 'paymentService' }],
+    );
+
+    // Act
+    const json = JSON.parse(JSON.stringify(dependencyGraph));
+
+    // Assert
+    assertEquals(json, {
+        nodes: [{ key: 'orderService', lifetime: 'Scoped' }, { key: 'paymentService' }],
+        edges: [{ from: 'orderService', to: 'paymentService', lifetimeViolation: false }],
+    });
+});
+
+Deno.test('DependencyGraph - toDot exports lifetimes and highlights lifetime violations', () => {
+    // Arrange
+    const dependencyGraph = DependencyGraph.create(
+        [
+            { key: 'orderCache', lifetime: ServiceLifetime.Singleton },
+            { key: 'unitOfWork', lifetime: ServiceLifetime.Scoped },
+        ],
+        [{ from: 'orderCache', to: 'unitOfWork' }, { from: 'unitOfWork', to: 'say "hi"' }],
+    );
+
+    // Act
+    const dot = dependencyGraph.toDot();
+
+    // Assert
+    assertEquals(
+        dot,
+        [
+            'digraph dependencies {',
+            '    "orderCache" [label="orderCache\\n(Singleton)"];',
+            '    "unitOfWork" [label="unitOfWork\\n(Scoped)"];',
+            '    "say \\"hi\\"" [label="say \\"hi\\"", style=dashed];',
+            '    "orderCache" -> "unitOfWork" [color=red, label="lifetime violation"];',
+            '    "unitOfWork" -> "say \\"hi\\"";',
+            '}',
+        ].join('\n'),
+    );
+});
+
+Deno.test('DependencyGraph - toMermaid exports lifetimes and highlights lifetime violations', () => {
+    // Arrange
+    const dependencyGraph = DependencyGraph.create(
+        [
+            { key: 'orderService', lifetime: ServiceLifetime.Scoped },
+            { key: 'orderCache', lifetime: ServiceLifetime.Singleton },
+            { key: 'unitOfWork', lifetime: ServiceLifetime.Scoped },
+        ],
+        [{ from: 'orderService', to: 'orderCache' }, { from: 'orderCache', to: 'unitOfWork' }],
+    );
+
+    // Act
+    const mermaid = dependencyGraph.toMermaid();
+
+    // Assert
+    assertEquals(
+        mermaid,
+        [
+            'graph LR',
+            '    n0["orderService (Scoped)"]',
+            '    n1["orderCache (Singleton)"]',
+            '    n2["unitOfWork (Scoped)"]',
+            '    n0 --> n1',
+            '    n1 -->|lifetime violation| n2',
+            '    linkStyle 1 stroke:#d00',
+        ].join('\n'),
+    );
+});
+
+Deno.test('DependencyGraph - toMermaid escapes quotes in keys', () => {
+    // Arrange
+    const dependencyGraph = DependencyGraph.create([{ key: 'say "hi"' }], []);
+
+    // Act
+    const mermaid = dependencyGraph.toMermaid();
+
+    // Assert
+    assert(mermaid.includes('n0["say #quot;hi#quot;"]'));
+});
@@ -5,8 +5,8 @@
  * https://opensource.org/licenses/MIT
  */
 
-import { EmptyDIServiceCollection, ServiceFactory } from '@domaincrafters/di/mod.ts';
-import { assertEquals, assertThrows } from '@std/assert';
+import { EmptyDIServiceCollection, ServiceFactory, ServiceLifetime } from '@domaincrafters/di/mod.ts';
+import { assertEquals, assertFalse, assertThrows } from '@std/assert';
 
 Deno.test('EmptyDIServiceCollection - addScoped throws', () => {
     // Arrange
@@ -90,3 +90,122 @@ Deno.test('EmptyDIServiceCollection - transient returns empty map', () => {
     assertEquals(transientBindings.size, 0);
 
 });
+
+Deno.test('EmptyDIServiceCollection - class registrations throw', () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceCollection.instance();
+    class UserService {}
+
+    // Act & Assert
+    assertThrows(() => serviceCollection.addScopedClass('userService', UserService));
+    assertThrows(() => serviceCollection.addSingletonClass('userService', UserService));
+    assertThrows(() => serviceCollection.addTransientClass('userService', UserService));
+});
+
+Deno.test('EmptyDIServiceCollection - addInstance throws', () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceCollection.instance();
+
+    // Act & Assert
+    assertThrows(() => serviceCollection.addInstance('config', { config: 'value' }));
+});
+
+Deno.test('EmptyDIServiceCollection - findAll returns empty', () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceCollection.instance();
+
+    // Act
+    const bindings = serviceCollection.findAll('userService');
+
+    // Assert
+    assertEquals(bindings.length, 0);
+});
+
+Deno.test('EmptyDIServiceCollection - tryAdd, replace and decorate throw', () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceCollection.instance();
+    const createCallback: ServiceFactory = async (_provider) => ({});
+
+    // Act & Assert
+    assertThrows(() => serviceCollection.tryAddScoped('userService', createCallback));
+    assertThrows(() => serviceCollection.tryAddSingleton('userService', createCallback));
+    assertThrows(() => serviceCollection.tryAddTransient('userService', createCallback));
+    assertThrows(() =>
+        serviceCollection.replace('userService', ServiceLifetime.Singleton, createCallback)
+    );
+    assertThrows(() =>
+        serviceCollection.decorate('userService', async (inner, _provider) => inner)
+    );
+});
+
+Deno.test('EmptyDIServiceCollection - remove is a no-op and has returns false, also for named variants', () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceCollection.instance();
+
+    // Act
+    const result = serviceCollection.remove('userService');
+    const keyedResult = serviceCollection.removeKeyed('userService', 'admin');
+
+    // Assert
+    assertEquals(result, serviceCollection);
+    assertEquals(keyedResult, serviceCollection);
+    assertFalse(serviceCollection.has('userService'));
+    assertFalse(serviceCollection.hasKeyed('userService', 'admin'));
+});
+
+Deno.test('EmptyDIServiceCollection - keyed services cannot be added and none are found', () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceCollection.instance();
+    const createCallback: ServiceFactory = async (_provider) => ({});
+
+    // Act & Assert
+    assertThrows(() => serviceCollection.addKeyedScoped('userService', 'admin', createCallback));
+    assertThrows(() => serviceCollection.addKeyedSingleton('userService', 'admin', createCallback));
+    assertThrows(() => serviceCollection.addKeyedTransient('userService', 'admin', createCallback));
+    assertFalse(serviceCollection.findKeyed('userService', 'admin').isPresent);
+    assertEquals(serviceCollection.findAllKeyed('userService').size, 0);
+    assertEquals(serviceCollection.keyed.size, 0);
+});
+
+Deno.test('EmptyDIServiceCollection - addFactory throws', () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceCollection.instance();
+
+    // Act & Assert
+    assertThrows(() =>
+        serviceCollection.addFactory('orderFactory', async (_provider, id: string) => ({ id }))
+    );
+});
+
+Deno.test('EmptyDIServiceCollection - addModule throws and findModules returns empty', () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceCollection.instance();
+
+    // Act & Assert
+    assertThrows(() => serviceCollection.addModule({ name: 'orders', register: () => {} }));
+    assertEquals(serviceCollection.findModules('orderRepository'), []);
+});
+
+Deno.test('EmptyDIServiceCollection - clone returns the empty collection', () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceCollection.instance();
+
+    // Act
+    const clonedCollection = serviceCollection.clone();
+
+    // Assert
+    assertEquals(clonedCollection, serviceCollection);
+});
+
+Deno.test('EmptyDIServiceCollection - addHostedService throws', () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceCollection.instance();
+
+    // Act & Assert
+    assertThrows(() =>
+        serviceCollection.addHostedService('scheduler', async (_provider) => ({
+            start: () => Promise.resolve(),
+            stop: () => Promise.resolve(),
+        }))
+    );
+});
@@ -5,8 +5,8 @@
  * https://opensource.org/licenses/MIT
  */
 
-import { EmptyDIServiceProvider } from '@domaincrafters/di/mod.ts';
-import { assert, assertThrows } from '@std/assert';
+import { EmptyDIServiceProvider, ServiceNotFoundException } from '@domaincrafters/di/mod.ts';
+import { assert, assertEquals, assertRejects, assertThrows } from '@std/assert';
 
 interface UserService {
     user: string;
@@ -31,6 +31,18 @@ Deno.test('EmptyDIServiceProvider - getService returns empty', async () => {
     assert(!serviceOptional.isPresent);
 });
 
+Deno.test('EmptyDIServiceProvider - getRequiredService throws', async () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceProvider.instance();
+
+    // Act & Assert
+    await assertRejects(
+        () => serviceCollection.getRequiredService<UserService>('userService'),
+        ServiceNotFoundException,
+        'userService',
+    );
+});
+
 Deno.test('EmptyDIServiceProvider - dispose returns empty', async () => {
     // Arrange
     const serviceCollection = EmptyDIServiceProvider.instance();
@@ -41,3 +53,86 @@ Deno.test('EmptyDIServiceProvider - dispose returns empty', async () => {
     // Assert
     assert(true);
 });
+
+Deno.test('EmptyDIServiceProvider - asyncDispose returns empty', async () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceProvider.instance();
+
+    // Act
+    await serviceCollection[Symbol.asyncDispose]();
+
+    // Assert
+    assert(true);
+});
+
+Deno.test('EmptyDIServiceProvider - getServices returns empty', async () => {
+    // Arrange
+    const serviceCollection = EmptyDIServiceProvider.instance();
+
+    // Act
+    const services = await serviceCollection.getServices<UserService>('userService');
+
+    // Assert
+    assert(services.length === 0);
+});
+
+Deno.test('EmptyDIServiceProvider - getKeyedService returns empty', async () => {
+    // Arrange
+    const serviceProvider = EmptyDIServiceProvider.instance();
+
+    // Act
+    const serviceOptional = await serviceProvider.getKeyedService<UserService>(
+        'userService',
+        'admin',
+    );
+
+    // Assert
+    assert(!serviceOptional.isPresent);
+});
+
+Deno.test('EmptyDIServiceProvider - getLazy rejects on access', async () => {
+    // Arrange
+    const serviceProvider = EmptyDIServiceProvider.instance();
+
+    // Act
+    const lazyUserService = serviceProvider.getLazy<UserService>('userService');
+
+    // Assert
+    await assertRejects(() => lazyUserService.value(), ServiceNotFoundException);
+});
+
+Deno.test('EmptyDIServiceProvider - createChild throws', () => {
+    // Arrange
+    const serviceProvider = EmptyDIServiceProvider.instance();
+
+    // Act & Assert
+    assertThrows(() => serviceProvider.createChild((_serviceCollection) => {}));
+});
+
+Deno.test('EmptyDIServiceProvider - provide throws', () => {
+    // Arrange
+    const serviceProvider = EmptyDIServiceProvider.instance();
+
+    // Act & Assert
+    assertThrows(() => serviceProvider.provide('currentUser', 'alice'));
+});
+
+Deno.test('EmptyDIServiceProvider - getDependencyGraph returns an empty graph', () => {
+    // Arrange
+    const serviceProvider = EmptyDIServiceProvider.instance();
+
+    // Act
+    const dependencyGraph = serviceProvider.getDependencyGraph();
+
+    // Assert
+    assertEquals(dependencyGraph.nodes, []);
+    assertEquals(dependencyGraph.edges, []);
+});
+
+Deno.test('EmptyDIServiceProvider - initialize resolves', async () => {
+    // Arrange
+    const serviceProvider = EmptyDIServiceProvider.instance();
+
+    // Act & Assert
+    await serviceProvider.initialize();
+});
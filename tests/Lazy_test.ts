@@ -0,0 +1,61 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { Lazy, LazyServiceKey, ServiceToken } from '@domaincrafters/di/mod.ts';
+import { assert, assertEquals, assertRejects, assertStrictEquals } from '@std/assert';
+
+interface ConfigService {
+    config: number;
+}
+
+Deno.test('Lazy - value resolves on first access only', async () => {
+    // Arrange
+    let resolveCount = 0;
+    const lazy = Lazy.create<ConfigService>(async () => ({ config: ++resolveCount }));
+
+    // Act
+    const countBeforeAccess = resolveCount;
+    const [value1, value2] = await Promise.all([lazy.value(), lazy.value()]);
+    const value3 = await lazy.value();
+
+    // Assert
+    assertEquals(countBeforeAccess, 0);
+    assertEquals(resolveCount, 1);
+    assertStrictEquals(value1, value2);
+    assertStrictEquals(value1, value3);
+});
+
+Deno.test('Lazy - value resolves again after a failure', async () => {
+    // Arrange
+    let resolveCount = 0;
+    const lazy = Lazy.create<ConfigService>(async () => {
+        if (++resolveCount === 1) {
+            throw new Error('Connection refused');
+        }
+
+        return { config: resolveCount };
+    });
+
+    // Act
+    await assertRejects(() => lazy.value(), Error, 'Connection refused');
+    const value = await lazy.value();
+
+    // Assert
+    assertEquals(value.config, 2);
+});
+
+Deno.test('Lazy - of creates a lazy dependency on a key', () => {
+    // Arrange
+    const token = ServiceToken.create<ConfigService>('configService');
+
+    // Act
+    const dependency = Lazy.of(token);
+
+    // Assert
+    assert(dependency instanceof LazyServiceKey);
+    assertStrictEquals(dependency.key, token);
+});
@@ -0,0 +1,51 @@
+/*
+ * Copyright (c) 2024 Matthias Blomme and Dimitri Casier
+ *
+ * This software is released under the MIT License.
+ * https://opensource.org/licenses/MIT
+ */
+
+import { ServiceToken } from '@domaincrafters/di/mod.ts';
+import { assertEquals, assertNotStrictEquals } from '@std/assert';
+
+interface ConfigService {
+    config: number;
+}
+
+Deno.test('ServiceToken - create returns a token with the given key', () => {
+    // Act
+    const token = ServiceToken.create<ConfigService>('configService');
+
+    // Assert
+    assertEquals(token.key, 'configService');
+    assertEquals(token.toString(), 'configService');
+});
+
+Deno.test('ServiceToken - create returns a new token each time', () => {
+    // Act
+    const token1 = ServiceToken.create<ConfigService>('configService');
+    const token2 = ServiceToken.create<ConfigService>('configService');
+
+    // Assert
+    assertNotStrictEquals(token1, token2);
+    assertEquals(token1.key, token2.key);
+});
+
+Deno.test('ServiceToken - keyOf returns the key of a token', () => {
+    // Arrange
+    const token = ServiceToken.create<ConfigService>('configService');
+
+    // Act
+    const key = ServiceToken.keyOf(token);
+
+    // Assert
+    assertEquals(key, 'configService');
+});
+
+Deno.test('ServiceToken - keyOf returns a string key as is', () => {
+    // Act
+    const key = ServiceToken.keyOf('configService');
+
+    // Assert
+    assertEquals(key, 'configService');
+});